@@ -1,54 +1,48 @@
-import { LiteralNodesFinder, LiteralPart, parseHtmlLiteral, renderToHtml } from ".";
-
-class Template {
-  public constructor(
-    public readonly fragment: DocumentFragment,
-    public readonly parts: readonly LiteralPart[],
-    public readonly finder: LiteralNodesFinder,
-  ) {}
-}
-
-const templates = new WeakMap<TemplateStringsArray, Template>();
+import { compileTemplate, LiteralBinding, LiteralPart } from ".";
 
 /**
  * Example showing how to render concrete nodes.
  */
 function html(strings: TemplateStringsArray, ...args: (string | Node | object)[]) {
-  let template = templates.get(strings);
-
-  if (template === undefined) {
-    const parts = parseHtmlLiteral(strings),
-          finder = new LiteralNodesFinder(parts),
-          htmlString = renderToHtml(strings, parts),
-          fragment = document.createRange().createContextualFragment(htmlString);
-
-    templates.set(strings, template = new Template(fragment, parts, finder));
-  }
-
-  const root = template.fragment.cloneNode(true) as DocumentFragment,
-        nodes = template.finder.find(root),
+  const template = compileTemplate(strings),
+        root = document.importNode(template.element.content, true),
+        bindings = template.finder.findBindings(root, { removePlaceholderAttributes: true }),
         parts = template.parts;
 
   for (let i = 0, len = args.length; i < len; i++) {
     const arg = args[i],
           part = parts[i],
-          node = nodes[i];
+          binding = bindings[i];
 
     switch (part.type) {
       case LiteralPart.Kind.Attribute:
         if (part.index === 0) {
-          (node as Attr).value = String.raw(part.valueParts, ...args.slice(i, i + part.valueParts.length - 1));
+          const { element, attributeName } = binding as LiteralBinding.Attribute<Element>;
+
+          element.setAttribute(
+            attributeName, String.raw(part.valueParts, ...args.slice(i, i + part.valueParts.length - 1)));
+        }
+        break;
+
+      case LiteralPart.Kind.Text:
+        if (part.index === 0) {
+          (binding as LiteralBinding.Text<Text>).text.data =
+            String.raw(part.valueParts, ...args.slice(i, i + part.valueParts.length - 1));
         }
         break;
 
       case LiteralPart.Kind.Data:
-        Object.assign((node as Attr).ownerElement!, arg);
-        (node as Attr).ownerElement!.removeAttributeNode(node as Attr);
+        Object.assign((binding as LiteralBinding.Data<Element>).element, arg);
         break;
 
-      case LiteralPart.Kind.Node:
-        (node as Comment).replaceWith(arg as string | Node);
+      case LiteralPart.Kind.Node: {
+        // Nodes are inserted before the placeholder, which is kept so that the
+        // binding can be updated later.
+        const { parent, before } = binding as LiteralBinding.Node<Node>;
+
+        parent.insertBefore(typeof arg === "string" ? document.createTextNode(arg) : arg as Node, before);
         break;
+      }
 
       case LiteralPart.Kind.Comment:
         // Ignore comments.
@@ -60,13 +54,11 @@ function html(strings: TemplateStringsArray, ...args: (string | Node | object)[]
 }
 
 function expectHtml(strings: TemplateStringsArray, ...args: (string | Node | object)[]) {
-  let allHtml = "";
+  const container = document.createElement("div");
 
-  for (const child of html(strings, ...args).childNodes as unknown as Node[]) {
-    allHtml += (child as Element).outerHTML ?? child.textContent;
-  }
+  container.appendChild(html(strings, ...args));
 
-  return expect(allHtml);
+  return expect(container.innerHTML);
 }
 
 test("can render a simple node", () => {
@@ -75,6 +67,10 @@ test("can render a simple node", () => {
 
 test("can render nodes", () => {
   expectHtml`<span class="${"foo"} ${"bar"}"><a ${{ href: "#" }}>${html`<i>Hi`}`.toBe(
-    `<span class="foo bar"><a href="#"><i>Hi</i></a></span>`,
+    `<span class="foo bar"><a href="#"><i>Hi</i><!--::3::--></a></span>`,
   );
 });
+
+test("can render raw text", () => {
+  expectHtml`<textarea>${"<b>"} ${"&"}</textarea>`.toBe(`<textarea>&lt;b&gt; &amp;</textarea>`);
+});
@@ -1,4 +1,44 @@
-import { LiteralNodesFinder, LiteralPart, parseHtmlLiteral, renderToHtml } from ".";
+import {
+  classMap,
+  compileTemplate,
+  createMarkerScheme,
+  createRef,
+  defaultAttributePrefixes,
+  defaultMarkerScheme,
+  defaultSanitizer,
+  Directive,
+  directive,
+  disposeBindings,
+  domTreeAdapter,
+  getSecurityContext,
+  getUniqueMarkerScheme,
+  HtmlHydrationError,
+  HtmlLiteralSyntaxError,
+  HtmlTemplate,
+  LiteralBinding,
+  LiteralNodesFinder,
+  LiteralPart,
+  Namespace,
+  NodeRange,
+  noncedMarkerScheme,
+  parseHtmlLiteral,
+  parseHtmlTemplate,
+  ref,
+  renderToHtml,
+  renderToString,
+  renderToStream,
+  renderToStringAsync,
+  repeat,
+  SecurityContext,
+  styleMap,
+  TemplateInstance,
+  TemplateNode,
+  TemplateResult,
+  templateTreeAdapter,
+  TemplateTreeNode,
+  trusted,
+  until,
+} from ".";
 
 describe("the parser", () => {
   test("can parse nodes", () => {
@@ -134,13 +174,1136 @@ describe("the parser", () => {
     expect(part1.index).toBe(1);
     expect(part2.index).toBe(0);
   });
+
+  test("can parse raw text", () => {
+    expectHtmlLiteralParts`<textarea>${0}</textarea><p>${1}`.toMatchParts([
+      { text: "textarea", parts: ["", ""], index: 0 },
+      "node",
+    ]);
+
+    expectHtmlLiteralParts`<title>a ${0} <b>${1}</title>${2}`.toMatchParts([
+      { text: "title", parts: ["a ", " <b>", ""], index: 0 },
+      { text: "title", parts: ["a ", " <b>", ""], index: 1 },
+      "node",
+    ]);
+
+    expectHtmlLiteralParts`<style>a::before { content: "${0}" }</STYLE ><a href=${1}>`.toMatchParts([
+      { text: "style", parts: ["a::before { content: \"", "\" }"], index: 0 },
+      { attr: "href", parts: ["", ""], index: 0 },
+    ]);
+
+    expectHtmlLiteralParts`<script>if (a <${0}) { b = "</scripts>" }</script>${1}`.toMatchParts([
+      { text: "script", parts: ["if (a <", ") { b = \"</scripts>\" }"], index: 0 },
+      "node",
+    ]);
+  });
+
+  test("can parse escaped script data", () => {
+    expectHtmlLiteralParts`<script><!-- ${0} --></script>${1}`.toMatchParts([
+      { text: "script", parts: ["<!-- ", " -->"], index: 0 },
+      "node",
+    ]);
+
+    expectHtmlLiteralParts`<script><!-- <script></script> ${0} --></script>${1}`.toMatchParts([
+      { text: "script", parts: ["<!-- <script></script> ", " -->"], index: 0 },
+      "node",
+    ]);
+
+    expectHtmlLiteralParts`<script><!-- <script>${0}</script> --></script>${1}`.toMatchParts([
+      { text: "script", parts: ["<!-- <script>", "</script> -->"], index: 0 },
+      "node",
+    ]);
+  });
+
+  test("can parse dynamic tag names", () => {
+    const [part0, part1, part2, part3] = parseParts`
+      <${0} class=x>${1}</${2}><my-${3}>` as LiteralPart.TagName[];
+
+    expect(part0.type).toBe(LiteralPart.Kind.TagName);
+    expect([...part0.nameParts]).toEqual(["", ""]);
+    expect(part0.startTagPartIndex).toBe(-1);
+    expect(part0.tagName).toBe("${}");
+
+    expect(part1.tagName).toBe("${}");
+
+    expect(part2.type).toBe(LiteralPart.Kind.TagName);
+    expect(part2.startTagPartIndex).toBe(0);
+
+    expect(part3.type).toBe(LiteralPart.Kind.TagName);
+    expect([...part3.nameParts]).toEqual(["my-", ""]);
+    expect(part3.ancestors).toEqual([]);
+  });
+
+  test("can parse dynamic attribute names", () => {
+    const [part0, part1, part2, part3] = parseParts`
+      <div ${0}=${1} data-${2}-${3} id=x>` as LiteralPart.AttributeName[];
+
+    expect(part0.type).toBe(LiteralPart.Kind.AttributeName);
+    expect([...part0.nameParts]).toEqual(["", ""]);
+    expect(part0.tagName).toBe("div");
+
+    expect(part1.type).toBe(LiteralPart.Kind.Attribute);
+    expect((part1 as LiteralPart as LiteralPart.Attribute).attributeName).toBe("${}");
+    expect((part1 as LiteralPart as LiteralPart.Attribute).staticAttributes).toEqual([
+      { name: "id", value: "x" },
+    ]);
+
+    expect(part2.type).toBe(LiteralPart.Kind.AttributeName);
+    expect([...part2.nameParts]).toEqual(["data-", "-", ""]);
+    expect(part3.nameParts).toBe(part2.nameParts);  // reference equality
+    expect(part3.index).toBe(1);
+
+    expectHtmlLiteralParts`<input disabled ${0}>`.toMatchParts([
+      "data",
+    ]);
+  });
+
+  test("rejects unmatched dynamic end tags", () => {
+    expect(() => parseParts`<div></${0}>`).toThrow(
+      "Unexpected end tag binding ${0} at line 1, column 8.");
+  });
+
+  test("records the element of each part", () => {
+    const parts = parseParts`
+      <div><select ${0}>${1}</select><br><svg><!-- ${2} --></svg></div>${3}` as LiteralPart[];
+
+    expect(parts.map((part) => part.tagName)).toEqual(["select", "select", "svg", undefined]);
+    expect(parts.map((part) => part.ancestors)).toEqual([["div"], ["div"], ["div"], []]);
+  });
+
+  test("records the static attributes of each attribute part", () => {
+    const [part0, part1, part2] = parseParts`
+      <INPUT type=text value="${0}" disabled data-x = 'y'
+             class="a ${1}"><b id=${2}>` as LiteralPart.Attribute[];
+
+    expect(part0.tagName).toBe("input");
+    expect(part0.staticAttributes).toEqual([
+      { name: "type", value: "text" },
+      { name: "disabled", value: "" },
+      { name: "data-x", value: "y" },
+    ]);
+    expect(part1.staticAttributes).toBe(part0.staticAttributes);  // reference equality
+    expect(part2.ancestors).toEqual([]);
+    expect(part2.staticAttributes).toEqual([]);
+  });
+
+  test("classifies prefixed attributes", () => {
+    const parts = parseParts`
+      <input .valueAsNumber=${0} @click=${1} ?disabled="${2}" :x=${3} title=${4} .=${5}>` as LiteralPart.Attribute[];
+
+    expect(parts.map((part) => [part.kind, part.name])).toEqual([
+      [LiteralPart.AttributeKind.Property, "valueAsNumber"],
+      [LiteralPart.AttributeKind.Event, "click"],
+      [LiteralPart.AttributeKind.BooleanAttribute, "disabled"],
+      [LiteralPart.AttributeKind.Attribute, ":x"],
+      [LiteralPart.AttributeKind.Attribute, "title"],
+      [LiteralPart.AttributeKind.Attribute, "."],
+    ]);
+
+    const [part0, part1] = parseHtmlLiteral(literal`<a :x=${0} ::y=${1}>`, {
+      attributePrefixes: { ...defaultAttributePrefixes, ":": LiteralPart.AttributeKind.Custom, "::": 0 },
+    }) as LiteralPart.Attribute[];
+
+    expect(part0).toMatchObject({ kind: LiteralPart.AttributeKind.Custom, name: "x" });
+    expect(part1).toMatchObject({ kind: LiteralPart.AttributeKind.Attribute, name: "y" });
+  });
+
+  test("records the namespace of each part", () => {
+    const parts = parseParts`
+      <svg ${0} x=${1}>${2}<foreignObject>${3}<p ${4}></p></foreignObject><path ${5}/>${6}</svg>
+      <math><mi>${7}</mi><mrow><p>${8}</p></mrow></math>${9}` as LiteralPart[];
+
+    expect(parts.map((part) => part.namespace)).toEqual([
+      Namespace.Svg, Namespace.Svg, Namespace.Svg, Namespace.Html, Namespace.Html,
+      Namespace.Svg, Namespace.Svg, Namespace.Html, Namespace.Html, Namespace.Html,
+    ]);
+    expect(parts[6].tagName).toBe("svg");
+    // `<p>` breaks out of `<math>`, so that `</math>` is ignored.
+    expect(parts[8].tagName).toBe("p");
+    expect(parts[8].ancestors).toEqual([]);
+    expect(parts[9].tagName).toBe(undefined);
+  });
+
+  test("can parse foreign fragments", () => {
+    const parts = parseHtmlLiteral(literal`<circle r=${0} />${1}`, { namespace: Namespace.Svg });
+
+    expect(parts.map((part) => [part.type, part.namespace])).toEqual([
+      [LiteralPart.Kind.Attribute, Namespace.Svg],
+      [LiteralPart.Kind.Node, Namespace.Svg],
+    ]);
+  });
+
+  test("can parse CDATA sections in foreign content", () => {
+    const [part0, part1, part2] = parseParts`
+      <svg><![CDATA[ <p>${0}]${1}]]>${2}</svg>` as LiteralPart[];
+
+    expect(part0).toMatchObject({ type: LiteralPart.Kind.Text, tagName: "svg", namespace: Namespace.Svg });
+    expect(part1.type).toBe(LiteralPart.Kind.Text);
+    expect(part2.type).toBe(LiteralPart.Kind.Node);
+    expect(() => parseParts`<p><![CDATA[ ${0} ]]>`).toThrow("Unexpected binding in bogus comment");
+  });
+});
+
+describe("the parser errors", () => {
+  test("report the position of the error", () => {
+    let error: HtmlLiteralSyntaxError | undefined;
+
+    try {
+      parseParts`<p>
+  <a href="${0}"${1}>
+</p>`;
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(HtmlLiteralSyntaxError);
+    expect(error!.bindingIndex).toBe(1);
+    expect(error!.stringIndex).toBe(1);
+    expect(error!.offset).toBe(1);
+    expect(error!.stateName).toBe("AFTER_ATTRIBUTE_VALUE_QUOTED");
+    expect(error!.source).toBe(`<p>\n  <a href="\${0}"\${1}>\n</p>`);
+    expect(error!.position).toBe(20);
+    expect(error!.line).toBe(2);
+    expect(error!.column).toBe(17);
+    expect(error!.codeFrame).toBe([
+      "  1 | <p>",
+      "> 2 |   <a href=\"${0}\"${1}>",
+      "    |                 ^",
+      "  3 | </p>",
+    ].join("\n"));
+    expect(error!.message).toBe(
+      "Unexpected binding ${1} at line 2, column 17.\n\n" + error!.codeFrame);
+  });
+});
+
+describe("the recovering parser", () => {
+  test("returns invalid parts", () => {
+    const strings = literal`<a href="/"${0} title=${1}><? ${2} ?></a>${3}`,
+          { parts, diagnostics } = parseHtmlLiteral(strings, { recover: true });
+
+    expect(parts.map((part) => part.type)).toEqual([
+      LiteralPart.Kind.Invalid,
+      LiteralPart.Kind.Attribute,
+      LiteralPart.Kind.Invalid,
+      LiteralPart.Kind.Node,
+    ]);
+    expect(diagnostics.map((diagnostic) => diagnostic.message.split(" at ")[0])).toEqual([
+      "Unexpected binding ${0}",
+      "Unexpected binding in bogus comment ${2}",
+    ]);
+    expect((parts[0] as LiteralPart.Invalid).error).toBe(diagnostics[0]);
+    expect(renderToHtml(strings, parts)).toBe(`<a href="/" title=::1::><?  ?></a><!--::3::-->`);
+  });
+
+  test("reports unterminated constructs", () => {
+    expectUnterminatedConstruct`<p>${0}<!-- ${1}`.toEqual(["Unterminated comment", 1, 8]);
+    expectUnterminatedConstruct`<p>${0}<?xml`.toEqual(["Unterminated comment", 1, 8]);
+    expectUnterminatedConstruct`<p title="${0}`.toEqual([
+      `Unterminated value of attribute "title" in tag <p>`, 1, 10,
+    ]);
+    expectUnterminatedConstruct`<p>
+  <a href=${0} ${1}`.toEqual(["Unterminated tag <a>", 2, 3]);
+    expectUnterminatedConstruct`<my-${0}`.toEqual(["Unterminated tag <my-${}>", 1, 1]);
+    expectUnterminatedConstruct`<p></p ${0}`.toEqual(["Unterminated end tag </p>", 1, 4]);
+    expectUnterminatedConstruct`<script>${0}`.toEqual(["Unterminated element <script>", 1, 1]);
+    expectUnterminatedConstruct`<p>${0}</p>`.toEqual([]);
+  });
+
+  test("does not report unterminated constructs by default", () => {
+    expect(parseHtmlLiteral(literal`<p title="${0}`)).toHaveLength(1);
+  });
+
+  test("throws on unterminated constructs in strict mode", () => {
+    expect(() => parseHtmlLiteral(literal`<p title="${0}`, { strict: true })).toThrow(
+      `Unterminated value of attribute "title" in tag <p> at line 1, column 10.`);
+    expect(parseHtmlLiteral(literal`<p title="${0}">`, { strict: true })).toHaveLength(1);
+  });
+});
+
+describe("the tree parser", () => {
+  test("can build a tree", () => {
+    const { children } = parseTemplate`<ul class="list ${0}" hidden>${1}<li ${2}>a &amp; b</li><!-- ${3} --></ul>`;
+
+    expect(children).toMatchObject([{
+      kind: TemplateNode.Kind.Element,
+      tagName: "ul",
+      attributes: [
+        {
+          kind: TemplateNode.Kind.Attribute,
+          name: { strings: ["class"], bindings: [] },
+          value: { strings: ["list ", ""], bindings: [0] },
+        },
+        { kind: TemplateNode.Kind.Attribute, name: { strings: ["hidden"] }, value: undefined },
+      ],
+      children: [
+        { kind: TemplateNode.Kind.Binding, index: 1, part: { type: LiteralPart.Kind.Node } },
+        {
+          kind: TemplateNode.Kind.Element,
+          tagName: "li",
+          attributes: [{ kind: TemplateNode.Kind.Binding, index: 2, part: { type: LiteralPart.Kind.Data } }],
+          children: [{ kind: TemplateNode.Kind.Text, value: { strings: ["a &amp; b"], bindings: [] } }],
+        },
+        { kind: TemplateNode.Kind.Comment, value: { strings: [" ", " "], bindings: [3] } },
+      ],
+    }]);
+  });
+
+  test("reports source offsets", () => {
+    const template = parseTemplate`<p title='${0}'>
+  Hello, ${1}!<br/><!-- ${2} --><?x>
+</p>`;
+
+    expect(template.source).toBe("<p title='${0}'>\n  Hello, ${1}!<br/><!-- ${2} --><?x>\n</p>");
+    expect(sourceSlices(template)).toEqual([
+      "<p title='${0}'>\n  Hello, ${1}!<br/><!-- ${2} --><?x>\n</p>",
+      "title='${0}'",
+      "\n  Hello, ",
+      "${1}",
+      "!",
+      "<br/>",
+      "<!-- ${2} -->",
+      "<?x>",
+      "\n",
+    ]);
+  });
+
+  test("can build raw text and dynamic names", () => {
+    const { children } = parseTemplate`<${0} data-${1}=x><textarea>Hello, ${2}!</textarea></${3}>`;
+
+    expect(children).toMatchObject([{
+      tagName: "${}",
+      name: { strings: ["", ""], bindings: [0] },
+      attributes: [{ name: { strings: ["data-", ""], bindings: [1] }, value: { strings: ["x"] } }],
+      children: [{
+        tagName: "textarea",
+        children: [{ kind: TemplateNode.Kind.Text, value: { strings: ["Hello, ", "!"], bindings: [2] } }],
+      }],
+    }]);
+  });
+
+  test("closes elements like the tokenizer", () => {
+    const template = parseTemplate`<div><p>a</div>b<span>`,
+          [div, b, span] = template.children as TemplateNode.Element[];
+
+    expect(template.children.map((node) => node.kind)).toEqual([
+      TemplateNode.Kind.Element,
+      TemplateNode.Kind.Text,
+      TemplateNode.Kind.Element,
+    ]);
+    expect(template.source.slice(div.children[0].start, div.children[0].end)).toBe("<p>a");
+    expect(template.source.slice(b.start, b.end)).toBe("b");
+    expect(span.end).toBe(template.source.length);
+  });
+
+  test("builds foreign elements", () => {
+    const template = parseTemplate`<svg><g/><![CDATA[a${0}]]><foreignObject><br/></foreignObject></svg>`,
+          svg = template.children[0] as TemplateNode.Element,
+          [g, cdata, foreignObject] = svg.children as TemplateNode.Element[];
+
+    expect(svg.namespace).toBe(Namespace.Svg);
+    expect(g).toMatchObject({ namespace: Namespace.Svg, selfClosing: true, children: [] });
+    expect(cdata.kind).toBe(TemplateNode.Kind.Text);
+    expect(foreignObject.children[0]).toMatchObject({ tagName: "br", namespace: Namespace.Html });
+    expect(sourceSlices(template)).toContain("a${0}");
+  });
+
+  test("returns diagnostics when recovering", () => {
+    const { parts, diagnostics, children } = parseHtmlTemplate(
+      literal`<a href="/"${0}>${1}</a>`, { recover: true });
+
+    expect(parts.map((part) => part.type)).toEqual([LiteralPart.Kind.Invalid, LiteralPart.Kind.Node]);
+    expect(diagnostics).toHaveLength(1);
+    expect(children).toMatchObject([{
+      tagName: "a",
+      attributes: [{ value: { strings: ["/"] } }],
+      children: [{ kind: TemplateNode.Kind.Binding, index: 1 }],
+    }]);
+  });
 });
 
 describe("the html renderer", () => {
   test("can render html", () => {
     expectHtmlString`<a style="${0}: ${1}" href=${1} ${2}>${3}</a>${4}`.toBe(
-      `<a style="::: ::" href=:: ::3=0><!--::4--></a><!--::5-->`,
+      `<a style="::0::: ::1::" href=::2:: ::3::><!--::4::--></a><!--::5::-->`,
+    );
+
+    expectHtmlString`<${0} ${1}=${2} data-${3}></${4}>`.toBe(
+      `<tag::0:: ::1::=::2:: data-::3::></tag::0::>`,
     );
+
+    expectHtmlString`<textarea>${0}</textarea>${1}`.toBe(
+      `<textarea>::0::</textarea><!--::1::-->`,
+    );
+
+    expectHtmlString`<input .valueAsNumber=${0} @click = "a${1}" title=${2}>`.toBe(
+      `<input ::0::=::0:: ::1:: = "a::1::" title=::2::>`,
+    );
+  });
+});
+
+describe("the string renderer", () => {
+  test("can render values", () => {
+    expect(html`<p class="a ${"b"}" title='${`"it's"`}' id=${"x y"} ${{ hidden: true, lang: "en" }}>${1 + 1}</p>`)
+      .toBe(`<p class="a b" title="&quot;it's&quot;" id="x y" hidden lang="en">2</p>`);
+    expect(html`<${"my-tag"} data-${"id"}=${0}></${"my-tag"}>`).toBe(`<my-tag data-id="0"></my-tag>`);
+    expect(html`<input .value=${"a"} @input=${() => {}} ?disabled=${true} ?hidden="${false}" id=${"b"}>`).toBe(
+      `<input   disabled  id="b">`);
+  });
+
+  test("escapes values depending on their context", () => {
+    expect(html`<p>${"<b>&</b>"}<!-- ${"-->"} --></p>`).toBe(
+      `<p>&lt;b&gt;&amp;&lt;/b&gt;<!-- --&gt; --></p>`);
+    expect(html`<a href="${`"><script>`}">`).toBe(`<a href="&quot;><script>">`);
+    expect(html`<title>${"</title>&"}</title>`).toBe(`<title>&lt;/title>&amp;</title>`);
+    expect(html`<script>let a = ${'"</script><!--"'};</script>`).toBe(
+      `<script>let a = "<\\/script><\\!--";</script>`);
+    expect(html`<svg><![CDATA[${"]]><script>"}]]></svg>`).toBe(
+      `<svg><![CDATA[]]]]><![CDATA[><script>]]></svg>`);
+    expect(() => html`<a ${{ "onclick=x": 1 }}>`).toThrow(TypeError);
+    expect(() => html`<${"a><script"}>`).toThrow(`Invalid name "a><script"`);
+  });
+
+  test("sanitizes attributes depending on their context", () => {
+    expect(getSecurityContext("a", "HREF")).toBe(SecurityContext.Url);
+    expect(getSecurityContext("object", "data")).toBe(SecurityContext.Url);
+    expect(getSecurityContext("p", "data")).toBe(SecurityContext.Generic);
+    expect(getSecurityContext("iframe", "srcdoc")).toBe(SecurityContext.Html);
+    expect(getSecurityContext("p", "onClick")).toBe(SecurityContext.EventHandler);
+    expect(getSecurityContext("p", "one")).toBe(SecurityContext.Generic);
+    expect(getSecurityContext("p", "only")).toBe(SecurityContext.Generic);
+
+    expect(html`<a href=${" java\nscript:alert(1)"} title=${"javascript:"}>`).toBe(
+      `<a href="about:invalid#unsafe" title="javascript:">`);
+    expect(html`<a href="/${"a:b"}" ${{ src: "javascript:", title: 1 }}><img src=${"https://a/b.png"}>`).toBe(
+      `<a href="/a:b" src="about:invalid#unsafe" title="1"><img src="https://a/b.png">`);
+    expect(html`<p style=${"color: red; background: url(javascript:x)"} ${{ style: "color: \\72 ed" }}>`).toBe(
+      `<p style="" style="">`);
+    expect(html`<p style="background: url('${"/a.png"}')">`).toBe(`<p style="background: url('/a.png')">`);
+    expect(() => html`<p onclick="select(${1})">`).toThrow(`Unsafe value for "onclick"`);
+    expect(() => html`<p onclick=${() => 1}>`).toThrow(`Unsafe value for "onclick"`);
+    expect(() => html`<p ${{ onclick: () => 1 }}>`).toThrow(`Unsafe value for "onclick"`);
+    expect(html`<p one=${"a"} ${{ only: "b" }}>`).toBe(`<p one="a" only="b">`);
+    expect(() => html`<iframe srcdoc=${"<script></script>"}>`).toThrow(TypeError);
+    expect(html`<p onclick="select(${trusted(1)})" ${{ onclick: trusted("f()") }} ?hidden=${trusted(false)}>`)
+      .toBe(`<p onclick="select(1)" onclick="f()" hidden>`);
+    expect(html`<a href="${trusted("javascript:")}${"f()"}">`).toBe(`<a href="about:invalid#unsafe">`);
+    expect(html`<a ${"href"}=${"javascript:alert(1)"} x-${"src"}=${"javascript:"}>`).toBe(
+      `<a href="about:invalid#unsafe" x-src="javascript:">`);
+    expect(() => html`<a on${"click"}=${"alert(1)"}>`).toThrow(`Unsafe value for "onclick"`);
+    expect(() => html`<${"IFRAME"} srcdoc=${"<script></script>"}>`).toThrow(TypeError);
+    expect(html`<i${"frame"} ${{ srcdoc: "" }} ${"style"}="${"a: b"}">`).toBe(`<iframe srcdoc="" style="a: b">`);
+  });
+
+  test("uses custom sanitizers", () => {
+    const strings = literal`<a href=${0} title=${1}>`,
+          sanitizer = jest.fn((value: unknown, context: SecurityContext, name: string) =>
+            context === SecurityContext.Generic ? defaultSanitizer(value, context, name) : "#");
+
+    expect(renderToString(strings, parseHtmlLiteral(strings), ["/", "a"], { sanitizer })).toBe(
+      `<a href="#" title="a">`);
+    expect(sanitizer).toHaveBeenCalledWith("/", SecurityContext.Url, "href", false);
+  });
+
+  test("renders nested templates, arrays and empty values", () => {
+    const items = ["a", "<b>"].map((item) => html.result`<li>${item}</li>`);
+
+    expect(html`<ul>${items}${null}${undefined}${false}${html.result`<li ${{ title: null }}>c`}</ul>`).toBe(
+      `<ul><li>a</li><li>&lt;b&gt;</li><li >c</ul>`);
+    expect(html`<ul>${repeat([1, 2], (i) => i, (i) => html.result`<li>${i}</li>`)}</ul>`).toBe(
+      `<ul><li>1</li><li>2</li></ul>`);
+    expect(html`<p>${new Set(["a", "<b>"])}${"cd"}</p>`).toBe(`<p>a&lt;b&gt;cd</p>`);
+  });
+
+  test("renders asynchronous values", async () => {
+    const strings = literal`<p title=${0}>${1}${2}</p>`,
+          list = repeat([1], (i) => i, (i) => html.result`${Promise.resolve(i)}`),
+          pending = until(asyncIterable(["b", "c"]), "..."),
+          values = [Promise.resolve("a"), pending, html.result`<i>${Promise.resolve([list])}</i>`];
+
+    expect(renderToString(strings, parseHtmlLiteral(strings), [null, pending, null])).toBe(`<p title="">...</p>`);
+    await expect(renderToStringAsync(strings, parseHtmlLiteral(strings), values))
+      .resolves.toBe(`<p title="a">c<i>1</i></p>`);
+  });
+
+  test("streams chunks as values resolve", async () => {
+    const strings = literal`<p title=${0}>${1}</p>${2}<hr>`,
+          title = deferred<string>(),
+          nested = deferred<string>(),
+          items = [html.result`<i>${nested.promise}</i>`, "c"],
+          stream = renderToStream(strings, parseHtmlLiteral(strings), [title.promise, "b", items]);
+
+    await expect(stream.next()).resolves.toEqual({ done: false, value: `<p title=` });
+
+    const first = stream.next();
+
+    await flushPromises();
+    title.resolve("a");
+
+    await expect(first).resolves.toEqual({ done: false, value: `"a">` });
+    await expect(stream.next()).resolves.toEqual({ done: false, value: `b` });
+    await expect(stream.next()).resolves.toEqual({ done: false, value: `</p>` });
+    await expect(stream.next()).resolves.toEqual({ done: false, value: `<i>` });
+
+    const next = stream.next();
+
+    await flushPromises();
+    nested.resolve("<b>");
+
+    await expect(next).resolves.toEqual({ done: false, value: `&lt;b&gt;` });
+    await expect(stream.next()).resolves.toEqual({ done: false, value: `</i>` });
+    await expect(stream.next()).resolves.toEqual({ done: false, value: `c` });
+    await expect(stream.next()).resolves.toEqual({ done: false, value: `<hr>` });
+    await expect(stream.next()).resolves.toEqual({ done: true, value: undefined });
+  });
+
+  test("streams chunks with for await", async () => {
+    const strings = literal`<ul class=${0} ${1}>${2}<li>${3}</li></ul>`,
+          parts = parseHtmlLiteral(strings),
+          values = [Promise.resolve("a"), { id: "b" }, [html.result`<li>${Promise.resolve("c")}</li>`], "d"],
+          chunks = [] as string[];
+
+    for await (const chunk of renderToStream(strings, parts, values, { hydratable: true })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks[0]).toBe(`<ul ::0 class=`);
+    expect(chunks.join("")).toBe(await renderToStringAsync(strings, parts, values, { hydratable: true }));
+  });
+
+  test("stops streaming when returned or aborted", async () => {
+    const strings = literal`<p>${0}</p>`,
+          parts = parseHtmlLiteral(strings),
+          stream = renderToStream(strings, parts, [repeat([1, 2], (i) => i, (i) => html.result`<i>${i}</i>`)]);
+
+    await expect(stream.next()).resolves.toEqual({ done: false, value: `<p>` });
+    await expect(stream.return()).resolves.toEqual({ done: true, value: undefined });
+    await expect(stream.next()).resolves.toEqual({ done: true, value: undefined });
+
+    const controller = new AbortController(),
+          value = deferred<string>(),
+          abortedStream = renderToStream(strings, parts, [value.promise], { signal: controller.signal });
+
+    await expect(abortedStream.next()).resolves.toEqual({ done: false, value: `<p>` });
+
+    const next = abortedStream.next();
+
+    controller.abort();
+
+    await expect(next).rejects.toBeDefined();
+    await expect(abortedStream.next()).resolves.toEqual({ done: true, value: undefined });
+  });
+
+  function html(strings: TemplateStringsArray, ...values: unknown[]) {
+    return renderToString(strings, parseHtmlLiteral(strings), values);
+  }
+
+  html.result = (strings: TemplateStringsArray, ...values: unknown[]) =>
+    new TemplateResult(strings, parseHtmlLiteral(strings), values);
+});
+
+describe("hydration", () => {
+  test("renders markers", () => {
+    const strings = literal`<ul class=${0}>${1}<li ${2}>a</li><!-- ${3} --><textarea>${4}</textarea></ul>`;
+
+    expect(renderToString(strings, parseHtmlLiteral(strings), ["x", "y", { id: "z" }, "c", "t"], { hydratable: true }))
+      .toBe(`<ul ::0 class="x"><!--::1-->y<!--/::1--><li ::2 id="z">a</li><!--::3: c -->`
+          + `<textarea ::4>t</textarea></ul>`);
+  });
+
+  test("finds the nodes of the rendered parts", () => {
+    const strings = literal`<p title="${0}" ${1}>${2}<!-- ${3} --><${4} data-${5}>${6}</${7}></p>`,
+          parts = parseHtmlLiteral(strings),
+          nested = literal`<b>${0}</b>`,
+          nestedParts = parseHtmlLiteral(nested),
+          root = document.createElement("div");
+
+    root.innerHTML = renderToString(strings, parts, [
+      "a", { id: "b" }, new TemplateResult(nested, nestedParts, ["c"]), "d", "i", "e", ["f", "g"], "i",
+    ], { hydratable: true });
+
+    const nodes = new LiteralNodesFinder(parts).hydrate(root),
+          p = root.firstChild as HTMLParagraphElement,
+          i = p.querySelector("i")!;
+
+    expect(nodes[0]).toBe(p.getAttributeNode("title"));
+    expect(nodes[1]).toBe(p);
+    expect((nodes[2] as NodeRange).start.nextSibling).toBe(p.querySelector("b"));
+    expect((nodes[2] as NodeRange).end.data).toBe("/::2");
+    expect((nodes[3] as Comment).data).toBe("::3: d ");
+    expect(nodes[4]).toBe(i);
+    expect(nodes[5]).toBe(i);
+    expect((nodes[6] as NodeRange).start.parentNode).toBe(i);
+    expect(nodes[7]).toBe(i);
+
+    const nestedNodes = new LiteralNodesFinder(nestedParts).hydrate(nodes[2] as NodeRange);
+
+    expect((nestedNodes[0] as NodeRange).start.nextSibling!.textContent).toBe("c");
+  });
+
+  test("uses markers which do not occur in the literal", () => {
+    const strings = literal`<p>::3 text <!--::0--></p>${0}`,
+          parts = parseHtmlLiteral(strings),
+          root = document.createElement("div");
+
+    root.innerHTML = renderToString(strings, parts, ["a"], { hydratable: true });
+
+    const [range] = new LiteralNodesFinder(parts).hydrate(root) as NodeRange[];
+
+    expect(root.innerHTML).toBe(`<p>::3 text <!--::0--></p><!--:::0-->a<!--/:::0-->`);
+    expect(range.start).toBe(root.childNodes[1]);
+    expect(range.end).toBe(root.lastChild);
+
+    const otherStrings = literal`<p title=${0}>${1}</p>`,
+          otherParts = parseHtmlLiteral(otherStrings),
+          markers = noncedMarkerScheme;
+
+    root.innerHTML = renderToString(otherStrings, otherParts, ["a", "b"], { hydratable: true, markers });
+
+    expect(root.firstElementChild!.hasAttribute(markers.prefix + markers.nonce + 0)).toBe(true);
+    expect(() => new LiteralNodesFinder(otherParts).hydrate(root)).toThrow(HtmlHydrationError);
+    expect(new LiteralNodesFinder(otherParts, undefined, { markers }).hydrate(root)).toHaveLength(2);
+  });
+
+  test("verifies the structure of the DOM", () => {
+    const strings = literal`<a href=${0}>${1}</a>`,
+          parts = parseHtmlLiteral(strings),
+          finder = new LiteralNodesFinder(parts),
+          root = document.createElement("div");
+
+    root.innerHTML = renderToString(strings, parts, ["/", "x"], { hydratable: true });
+    root.firstElementChild!.removeAttribute("href");
+
+    expect(() => finder.hydrate(root)).toThrow(`Missing attribute "href" for binding \${0}.`);
+
+    root.innerHTML = renderToString(strings, parts, ["/", "x"], { hydratable: true }).replace("<a", "<b");
+
+    expect(() => finder.hydrate(root)).toThrow(HtmlHydrationError);
+    expect(() => finder.hydrate(root)).toThrow("Expected element <a>, found <b> for binding ${0}.");
+
+    root.innerHTML = "<a ::0 href=/>x</a>";
+
+    expect(() => finder.hydrate(root)).toThrow(`Missing marker for binding \${1}.`);
+  });
+
+  test("verifies the static structure of the DOM", () => {
+    const strings = literal`<table><tr><td>a</td><td ${0}>${1}</td></tr></table><p>b</p><script>x(${2});</script>`,
+          parts = parseHtmlLiteral(strings),
+          finder = new LiteralNodesFinder(parts),
+          root = document.createElement("div"),
+          html = renderToString(strings, parts, [{ id: "c" }, "d", 1], { hydratable: true });
+
+    root.innerHTML = html;
+
+    expect(finder.hydrate(root)[0]).toBe(root.querySelector("#c"));
+
+    root.innerHTML = html.replace("<td>a", "<th>a");
+
+    expect(() => finder.hydrate(root)).toThrow(`Expected element <td>, found <th> for binding \${0}.`);
+
+    root.innerHTML = html.replace("<p>b</p>", "<p>e</p>");
+
+    expect(() => finder.hydrate(root)).toThrow(`Unexpected text in <p> for binding \${2}.`);
+
+    root.innerHTML = html + "<hr>";
+
+    expect(() => finder.hydrate(root)).toThrow(`Unexpected element <hr> for binding \${2}.`);
+
+    root.innerHTML = html.replace("x(1)", "y(1)");
+
+    expect(() => finder.hydrate(root)).toThrow(`Unexpected text for binding \${2}.`);
+
+    const otherStrings = literal`<p>${0}</p><hr>`,
+          otherParts = parseHtmlLiteral(otherStrings);
+
+    root.innerHTML = renderToString(otherStrings, otherParts, ["a"], { hydratable: true }).replace("<hr>", "");
+
+    expect(() => new LiteralNodesFinder(otherParts).hydrate(root))
+      .toThrow(`Missing element <hr> for binding \${0}.`);
+  });
+});
+
+describe("compileTemplate", () => {
+  test("caches templates by identity", () => {
+    const strings = literal`<p title=${0}>${1}</p>`,
+          template = compileTemplate(strings);
+
+    expect(compileTemplate(strings)).toBe(template);
+    expect(compileTemplate(literal`<p title=${0}>${1}</p>`)).not.toBe(template);
+    expect(template.html).toBe(`<p title=::0::><!--::1::--></p>`);
+    expect(Object.isFrozen(template)).toBe(true);
+  });
+
+  test("clones fragments with the nodes of their parts", () => {
+    const template = compileTemplate(literal`<p title=${0}>${1}</p>`),
+          first = template.clone(),
+          second = template.clone(),
+          p = first.fragment.firstChild as Element;
+
+    expect(first.fragment).not.toBe(second.fragment);
+    expect(first.nodes).toEqual([p.attributes[0], p.firstChild]);
+    expect((second.nodes[0] as Attr).ownerElement).toBe(second.fragment.firstChild);
+    expect(template.element.content.firstChild!.childNodes).toHaveLength(1);
+  });
+
+  test("parses fragments in the given namespace", () => {
+    const strings = literal`<circle r=${0}></circle><text>${1}</text>`,
+          template = compileTemplate(strings, Namespace.Svg),
+          { fragment, nodes } = template.clone(),
+          [circle, text] = Array.from(fragment.childNodes) as Element[];
+
+    expect(compileTemplate(strings, Namespace.Svg)).toBe(template);
+    expect(compileTemplate(strings)).not.toBe(template);
+    expect((compileTemplate(strings).element.content.firstChild as Element).namespaceURI).toBe(Namespace.Html);
+    expect(template.namespace).toBe(Namespace.Svg);
+    expect(circle.namespaceURI).toBe(Namespace.Svg);
+    expect(text.namespaceURI).toBe(Namespace.Svg);
+    expect(nodes).toEqual([circle.attributes[0], text.firstChild]);
+  });
+});
+
+describe("TemplateInstance", () => {
+  test("commits values", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<p class="a ${0} ${1}" ${2}>${3}</p>`)),
+          p = instance.fragment.firstChild as HTMLParagraphElement;
+
+    instance.update(["b", "c", { title: "t", hidden: true }, "d"]);
+
+    expect(p.outerHTML).toBe(`<p class="a b c" title="t" hidden="">d<!--::3::--></p>`);
+
+    const span = document.createElement("span");
+
+    instance.update(["b", null, { title: "u" }, span]);
+
+    expect(p.outerHTML).toBe(`<p class="a b " title="u"><span></span><!--::3::--></p>`);
+    expect(() => new TemplateInstance(compileTemplate(literal`<${0}>`))).toThrow(TypeError);
+  });
+
+  test("replaces the nodes of committed fragments", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<div>${0}</div>`)),
+          div = instance.fragment.firstChild as HTMLDivElement,
+          fragment = document.createDocumentFragment();
+
+    fragment.append(document.createElement("b"), document.createElement("i"));
+    instance.update([fragment]);
+
+    expect(div.outerHTML).toBe(`<div><b></b><i></i><!--::0::--></div>`);
+
+    instance.update(["text"]);
+
+    expect(div.outerHTML).toBe(`<div>text<!--::0::--></div>`);
+
+    instance.update([fragment]);
+    instance.update([null]);
+
+    expect(div.outerHTML).toBe(`<div><!--::0::--></div>`);
+  });
+
+  test("only commits changed values", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<p class="${0} ${1}">${2}</p>`)),
+          p = instance.fragment.firstChild as HTMLParagraphElement,
+          setAttribute = jest.spyOn(p, "setAttribute");
+
+    instance.update(["a", "b", "c"]);
+
+    const text = p.firstChild!;
+
+    instance.update(["a", "b", "c"]);
+    expect(setAttribute).toHaveBeenCalledTimes(1);
+
+    instance.update(["x", "y", 1]);
+    expect(setAttribute).toHaveBeenCalledTimes(2);
+    expect(p.firstChild).toBe(text);
+    expect(p.textContent).toBe("1");
+
+    instance.update(["x", "y", undefined]);
+    expect(p.childNodes).toHaveLength(1);
+  });
+
+  test("resets the properties missing from data", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<a href=${0} title="t" ${1}>`)),
+          a = instance.fragment.firstChild as HTMLAnchorElement,
+          href = trusted("javascript:void 0"),
+          onclick = () => {};
+
+    instance.update([href, { id: "a", title: "b", className: "c", onclick, foo: 1 }]);
+
+    expect(a.outerHTML).toBe(`<a href="javascript:void 0" title="b" id="a" class="c"></a>`);
+
+    instance.update([href, { href: "/" }]);
+
+    expect(a.outerHTML).toBe(`<a href="/" title="t"></a>`);
+    expect(a.onclick).toBe(null);
+    expect("foo" in a).toBe(false);
+
+    instance.update([href, {}]);
+
+    expect(a.getAttribute("href")).toBe("/");
+  });
+
+  test("commits properties, events and boolean attributes", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<input .value=${0} @input=${1} ?disabled=${2}>`)),
+          input = instance.fragment.firstChild as HTMLInputElement,
+          listener = jest.fn(),
+          otherListener = jest.fn();
+
+    instance.update(["a", listener, true]);
+
+    expect(input.outerHTML).toBe(`<input disabled="">`);
+    expect(input.value).toBe("a");
+
+    input.dispatchEvent(new Event("input"));
+    instance.update(["b", otherListener, 0]);
+    input.dispatchEvent(new Event("input"));
+
+    expect(input.outerHTML).toBe(`<input>`);
+    expect(input.value).toBe("b");
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(otherListener).toHaveBeenCalledTimes(1);
+  });
+
+  test("sanitizes attributes, properties and data", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<a href=${0} .title=${1} ${2}>${3}</a>`)),
+          a = instance.fragment.firstChild as HTMLAnchorElement,
+          onclick = () => {};
+
+    instance.update(["javascript:alert(1)", "javascript:", { onclick, style: "x: expression(y)" }, null]);
+
+    expect(a.getAttribute("href")).toBe("about:invalid#unsafe");
+    expect(a.title).toBe("javascript:");
+    expect(a.onclick).toBe(onclick);
+    expect(a.getAttribute("style")).toBe("");
+
+    instance.update([trusted("javascript:void 0"), "", { innerHTML: trusted("<b>b</b>") }, null]);
+
+    expect(a.getAttribute("href")).toBe("javascript:void 0");
+    expect(a.innerHTML).toBe("<b>b</b>");
+    expect(() => instance.update(["/", "", { innerHTML: "<b>" }, null])).toThrow(TypeError);
+
+    const handlers = new TemplateInstance(compileTemplate(literal`<p onclick=${0} .onclick=${1}>`));
+
+    expect(() => handlers.update([onclick, null])).toThrow(`Unsafe value for "onclick"`);
+    expect(() => handlers.update([null, onclick])).not.toThrow();
+    expect((handlers.fragment.firstChild as HTMLElement).onclick).toBe(onclick);
+
+    const list = new TemplateInstance(compileTemplate(literal`<ul>${0}</ul>`), { sanitizer: () => "#" });
+
+    list.update([repeat([1], (i) => i, () => templateResult`<li><a href=${"/"}></a></li>`)]);
+
+    expect(list.fragment.querySelector("a")!.getAttribute("href")).toBe("#");
+  });
+
+  test("adds event listeners once with their options", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<button @click.capture.once=${0} @my.event=${1}>`)),
+          button = instance.fragment.firstChild as HTMLButtonElement,
+          addEventListener = jest.spyOn(button, "addEventListener"),
+          removeEventListener = jest.spyOn(button, "removeEventListener"),
+          listener = jest.fn(),
+          otherListener = { handleEvent: jest.fn() };
+
+    instance.update([listener, listener]);
+    instance.update([otherListener, null]);
+
+    expect(addEventListener).toHaveBeenCalledTimes(2);
+    expect(addEventListener.mock.calls[0][0]).toBe("click");
+    expect(addEventListener.mock.calls[0][2]).toEqual({ capture: true, once: true, passive: false });
+    expect(addEventListener.mock.calls[1][0]).toBe("my.event");
+    expect(removeEventListener).toHaveBeenCalledTimes(1);
+
+    button.click();
+    button.click();
+    button.dispatchEvent(new Event("my.event"));
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(otherListener.handleEvent).toHaveBeenCalledTimes(1);
+
+    // The `once` listener removed by the button is added again.
+    instance.update([listener, null]);
+    button.click();
+
+    expect(addEventListener).toHaveBeenCalledTimes(3);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    instance.update([otherListener, null]);
+    instance.dispose();
+
+    expect(removeEventListener).toHaveBeenCalledTimes(2);
+    expect(() => instance.update(["alert(1)", null])).toThrow(
+      `The handler of the "click" event must be a function or an EventListener.`);
+  });
+
+  test("removes the event listeners of disposed instances", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<ul>${0}</ul>`)),
+          ul = instance.fragment.firstChild as HTMLUListElement,
+          listener = jest.fn(),
+          render = (items: number[]) =>
+            repeat(items, (item) => item, (item) => templateResult`<li @click=${() => listener(item)}>${item}</li>`);
+
+    instance.update([render([1, 2])]);
+    (ul.children[0] as HTMLElement).click();
+
+    const second = ul.children[1] as HTMLElement;
+
+    instance.update([render([1])]);
+    second.click();
+    (ul.children[0] as HTMLElement).click();
+    instance.dispose();
+    (ul.children[0] as HTMLElement).click();
+
+    expect(listener.mock.calls).toEqual([[1], [1]]);
+  });
+
+  test("commits directives", () => {
+    const calls = [] as string[];
+
+    class LogDirective extends Directive<[string]> {
+      public firstCommit(value: string) {
+        calls.push(`first ${this.binding.index} ${this.binding.node.nodeName} ${value}`);
+      }
+
+      public update(value: string) {
+        calls.push(`update ${this.binding.index} ${value}`);
+      }
+
+      public disconnect() {
+        calls.push(`disconnect ${this.binding.index}`);
+      }
+    }
+
+    const log = directive(LogDirective),
+          instance = new TemplateInstance(compileTemplate(literal`<p title=${0} ${1}>${2}</p>`)),
+          p = instance.fragment.firstChild as HTMLParagraphElement;
+
+    instance.update([log("a"), log("b"), "c"]);
+    instance.update([log("d"), { id: "e" }, log("f")]);
+
+    expect(p.outerHTML).toBe(`<p title="" id="e"><!--::2::--></p>`);
+
+    instance.update(["g", { id: "e" }, log("h")]);
+    instance.dispose();
+
+    expect(p.outerHTML).toBe(`<p title="g" id="e"><!--::2::--></p>`);
+    expect(calls).toEqual([
+      "first 0 P a", "first 1 P b", "update 0 d", "disconnect 1", "first 2 #comment f",
+      "disconnect 0", "update 2 h", "disconnect 2",
+    ]);
+    expect(() => new TemplateInstance(compileTemplate(literal`<p title="a ${0}">`)).update([log("j")]))
+      .toThrow("Directives must be the whole value of their attribute or text (binding 0).");
+  });
+
+  test("commits classMap, styleMap and ref", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<p class=${0} style=${1} ${2}>`)),
+          p = instance.fragment.firstChild as HTMLParagraphElement,
+          pRef = createRef(),
+          callback = jest.fn();
+
+    instance.update([classMap({ a: true, b: false }), styleMap({ fontSize: "2em", "--gap": 4 }), ref(pRef)]);
+
+    expect(p.className).toBe("a");
+    expect(p.style.fontSize).toBe("2em");
+    expect(p.style.getPropertyValue("--gap")).toBe("4");
+    expect(pRef.value).toBe(p);
+
+    p.classList.add("c");
+    instance.update([classMap({ a: false, b: 1 }), styleMap({ color: "red" }), ref(callback)]);
+
+    expect(p.className).toBe("c b");
+    expect(p.getAttribute("style")).toBe("color: red;");
+    expect(pRef.value).toBeUndefined();
+    expect(callback).toHaveBeenCalledWith(p);
+
+    instance.dispose();
+
+    expect(p.className).toBe("c");
+    expect(p.getAttribute("style")).toBe("");
+    expect(callback).toHaveBeenLastCalledWith(undefined);
+    expect(() => new TemplateInstance(compileTemplate(literal`<p title=${0}>`)).update([classMap({})]))
+      .toThrow(`classMap can only be used in the "class" attribute.`);
+  });
+
+  test("commits asynchronous values", async () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<p title=${0}>${1}</p>`)),
+          p = instance.fragment.firstChild as HTMLParagraphElement,
+          title = deferred<string>(),
+          first = deferred<IteratorResult<string>>(),
+          second = deferred<IteratorResult<string>>(),
+          results = [first.promise, second.promise],
+          iterator = { next: () => results.shift() ?? new Promise(() => {}), return: jest.fn() },
+          items = { [Symbol.asyncIterator]: () => iterator };
+
+    instance.update([title.promise, until(items, "Loading")]);
+
+    expect(p.outerHTML).toBe(`<p title="">Loading<!--::1::--></p>`);
+
+    first.resolve({ done: false, value: "a" });
+    await flushPromises();
+
+    expect(p.textContent).toBe("a");
+
+    instance.update([title.promise, until(items, "Loading")]);
+    title.resolve("t");
+    await flushPromises();
+
+    expect(p.title).toBe("t");
+    expect(p.textContent).toBe("Loading");
+
+    second.resolve({ done: false, value: "b" });
+    await flushPromises();
+
+    expect(p.textContent).toBe("Loading");
+    expect(iterator.return).toHaveBeenCalledTimes(1);
+  });
+
+  test("ignores superseded promises", async () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<p>${0}</p>`)),
+          p = instance.fragment.firstChild as HTMLParagraphElement,
+          slow = deferred<string>(),
+          fast = deferred<string>();
+
+    instance.update([slow.promise]);
+    instance.update([fast.promise]);
+    fast.resolve("fast");
+    await flushPromises();
+    slow.resolve("slow");
+    await flushPromises();
+
+    expect(p.textContent).toBe("fast");
+
+    const last = deferred<string>();
+
+    instance.update([last.promise]);
+    instance.update(["sync"]);
+    last.resolve("last");
+    await flushPromises();
+
+    expect(p.textContent).toBe("sync");
+  });
+
+  test("reports the errors of asynchronous values", async () => {
+    const onError = jest.fn(),
+          instance = new TemplateInstance(compileTemplate(literal`<p title=${0}>${1}</p>`), { onError }),
+          p = instance.fragment.firstChild as HTMLParagraphElement,
+          error = new Error("boom"),
+          results = [Promise.resolve({ done: false, value: "a" }), Promise.reject(error)],
+          items = { [Symbol.asyncIterator]: () => ({ next: () => results.shift() }) };
+
+    instance.update([Promise.reject(error), items]);
+    await flushPromises();
+
+    expect(p.outerHTML).toBe(`<p title="">a<!--::1::--></p>`);
+    expect(onError.mock.calls).toEqual([[error, 0], [error, 1]]);
+
+    instance.update(["t", Promise.reject(error)]);
+    await flushPromises();
+
+    expect(p.outerHTML).toBe(`<p title="t">a<!--::1::--></p>`);
+    expect(onError).toHaveBeenCalledTimes(3);
+  });
+
+  test("reports the errors of committing asynchronous values", async () => {
+    const onError = jest.fn(),
+          sanitizer = (value: unknown, context: SecurityContext, name: string) => {
+            if (context === SecurityContext.Url && String(value).startsWith("javascript:")) {
+              throw new TypeError(`Unsafe URL for "${name}".`);
+            }
+
+            return value;
+          },
+          instance = new TemplateInstance(compileTemplate(literal`<a href=${0}>${1}</a>`), { sanitizer, onError }),
+          a = instance.fragment.firstChild as HTMLAnchorElement,
+          next = jest.fn(() => Promise.resolve({ done: false, value: "javascript:void 0" })),
+          items = { [Symbol.asyncIterator]: () => ({ next }) };
+
+    instance.update([Promise.resolve("javascript:alert(1)"), "a"]);
+    await flushPromises();
+
+    expect(a.outerHTML).toBe(`<a href="">a<!--::1::--></a>`);
+    expect(onError.mock.calls).toEqual([[new TypeError(`Unsafe URL for "href".`), 0]]);
+
+    instance.update([items, "a"]);
+    await flushPromises();
+
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  test("renders nested templates and iterables", async () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<div>${0}</div>`)),
+          div = instance.fragment.firstChild as HTMLDivElement,
+          item = (text: unknown) => templateResult`<b>${text}</b>`;
+
+    instance.update([item("a")]);
+
+    const b = div.querySelector("b");
+
+    instance.update([item("c")]);
+
+    expect(div.textContent).toBe("c");
+    expect(div.querySelector("b")).toBe(b);
+
+    instance.update([[1, item(2), [3, null]]]);
+
+    expect(div.innerHTML.replace(/<!--[^]*?-->/g, "")).toBe(`1<b>2</b>3`);
+
+    instance.update([new Set(["x", "y"])]);
+
+    expect(div.textContent).toBe("xy");
+
+    instance.update([Promise.resolve(item("d"))]);
+    await flushPromises();
+
+    expect(div.innerHTML.replace(/<!--[^]*?-->/g, "")).toBe(`<b>d</b>`);
+
+    instance.update(["e"]);
+
+    expect(div.innerHTML).toBe(`e<!--::0::-->`);
+  });
+
+  test("renders keyed lists", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<ul>${0}</ul>`)),
+          ul = instance.fragment.firstChild as HTMLUListElement,
+          marker = ul.firstChild,
+          insertBefore = jest.spyOn(ul, "insertBefore"),
+          update = (keys: string[]) =>
+            instance.update([repeat(keys, (key) => key, (key) => templateResult`<li>${key}</li>`)]);
+
+    update(["a", "b", "c"]);
+
+    const [a, b, c] = Array.from(ul.children);
+
+    expect(ul.textContent).toBe("abc");
+
+    insertBefore.mockClear();
+    update(["c", "a", "b", "d"]);
+
+    expect(ul.textContent).toBe("cabd");
+    expect(ul.children[0]).toBe(c);
+    expect(ul.children[1]).toBe(a);
+    expect(ul.children[2]).toBe(b);
+    // `c` is moved (with its two surrounding comments), and `d` is inserted.
+    expect(insertBefore).toHaveBeenCalledTimes(4);
+    expect(ul.lastChild).toBe(marker);
+
+    update(["b"]);
+
+    expect(ul.children[0]).toBe(b);
+    expect(ul.childNodes).toHaveLength(4);
+
+    instance.update([null]);
+
+    expect(ul.childNodes).toHaveLength(1);
+    expect(ul.firstChild).toBe(marker);
+  });
+
+  test("parses repeated items in the namespace of their parent", () => {
+    const instance = new TemplateInstance(compileTemplate(literal`<svg>${0}</svg>`));
+
+    instance.update([repeat([1, 2], (r) => r, (r) => templateResult`<circle r=${r}></circle>`)]);
+
+    const circles = Array.from(instance.fragment.firstChild!.childNodes).filter((node) => node.nodeType === 1);
+
+    expect(circles).toHaveLength(2);
+    expect((circles[0] as Element).namespaceURI).toBe(Namespace.Svg);
+    expect((circles[1] as Element).getAttribute("r")).toBe("2");
   });
 });
 
@@ -162,6 +1325,215 @@ describe("LiteralNodesFinder", () => {
     expectSecondComputationToMatch();
   });
 
+  test("can find attributes with the same value on an element", () => {
+    const [root, nodes, expectSecondComputationToMatch] = findNodes`<a href=${0} title=${1}>`;
+
+    expect(nodes[0]).toBe(root.children[0].attributes.getNamedItem("href"));
+    expect(nodes[1]).toBe(root.children[0].attributes.getNamedItem("title"));
+    expectSecondComputationToMatch();
+  });
+
+  test("can find nodes whose static content looks like placeholders", () => {
+    const [root, nodes, expectSecondComputationToMatch] = findNodes`
+      <a title="::1::" href=${0} class=":::1:::" id=${1}><!--::2::--><!-- ${2} -->::3::<b>${3}</b>`;
+    const a = root.children[0];
+
+    expect(a.outerHTML).toContain(`href="::::0::::"`);
+    expect(nodes[0]).toBe(a.attributes.getNamedItem("href"));
+    expect(nodes[1]).toBe(a.attributes.getNamedItem("id"));
+    expect(nodes[2]).toBe(a.childNodes[1]);
+    expect(nodes[3]).toBe(a.children[0].childNodes[0]);
+    expectSecondComputationToMatch();
+  });
+
+  test("can find nodes whose static content looks like default placeholders", () => {
+    const strings = literal`<p title="::0::"><!--::0::-->${0}::1::${1}</p>`,
+          parts = parseHtmlLiteral(strings),
+          html = renderToHtml(strings, parts),
+          root = document.createRange().createContextualFragment(html),
+          p = root.children[0];
+
+    expect(html).toBe(`<p title="::0::"><!--::0::--><!--:::0:::-->::1::<!--:::1:::--></p>`);
+    expect(new LiteralNodesFinder(parts, undefined, { verify: true }).find(root)).toEqual([
+      p.childNodes[1], p.childNodes[3],
+    ]);
+  });
+
+  test("can find nodes rendered with a custom marker scheme", () => {
+    const strings = literal`<div .innerHTML=${0} ${1}><p title="a ${2}">${3}<!-- ${4} -->${5}</p></div>`,
+          parts = parseHtmlLiteral(strings),
+          markers = createMarkerScheme({
+            prefix: "x-",
+            nonce: "Nonce",
+            attributeName: (marker) => "data-" + marker,
+            comment: (marker) => "[" + marker + "]",
+          }),
+          html = renderToHtml(strings, parts, { markers }),
+          finder = new LiteralNodesFinder(parts, undefined, { markers, verify: true }),
+          root = document.createRange().createContextualFragment(html),
+          div = root.children[0],
+          p = div.children[0];
+
+    expect(html).toBe(
+      `<div data-x-Nonce0x-=x-Nonce0x- data-x-Nonce1x-><p title="a x-Nonce2x-"><!--[x-Nonce3x-]--><!-- x-Nonce4x- -->`
+      + `<!--[x-Nonce5x-]--></p></div>`,
+    );
+    const nodes = finder.find(root);
+
+    expect(nodes).toEqual([
+      div.attributes[0], div.attributes[1], p.attributes[0], p.childNodes[0], p.childNodes[1], p.childNodes[2],
+    ]);
+    expect(finder.getAttributeName(div.attributes[0])).toBe(".innerHTML");
+    expect(finder.find(root)).toEqual(nodes);
+  });
+
+  test("can create random marker schemes", () => {
+    const { prefix, nonce, attributeName, comment } = createMarkerScheme();
+
+    expect(prefix).toBe("::");
+    expect(nonce).toMatch(/^[a-z0-9]{2,}$/);
+    expect(createMarkerScheme().nonce).not.toBe(nonce);
+    expect(attributeName("::a0::")).toBe("::a0::");
+    expect(comment("::a0::")).toBe("::a0::");
+    expect(getUniqueMarkerScheme(["a::b0::"], createMarkerScheme({ nonce: "b" })).prefix).toBe(":::");
+  });
+
+  test("can use the random marker scheme", () => {
+    const strings = literal`<p ${0}>${1}</p>`,
+          parts = parseHtmlLiteral(strings),
+          markers = noncedMarkerScheme,
+          root = document.createRange().createContextualFragment(renderToHtml(strings, parts, { markers })),
+          p = root.children[0];
+
+    expect(markers.nonce).toMatch(/^[a-z0-9]{2,}$/);
+    expect(markers.nonce).not.toBe(defaultMarkerScheme.nonce);
+    expect(markers.nonce).not.toBe(createMarkerScheme().nonce);
+    expect(p.outerHTML).toBe(`<p ::${markers.nonce}0::=""><!--::${markers.nonce}1::--></p>`);
+    expect(new LiteralNodesFinder(parts, undefined, { markers, verify: true }).find(root)).toEqual([
+      p.attributes[0], p.firstChild,
+    ]);
+  });
+
+  test("can find bindings", () => {
+    const strings = literal`
+      <div .innerHTML=${0} ${1} class="a ${2} b${3}"><${4}>${5}</${6}><!-- ${7} --><textarea>${8}</textarea></div>`,
+          parts = parseHtmlLiteral(strings),
+          finder = new LiteralNodesFinder(parts),
+          root = finder.adapter.parseFragment(renderToHtml(strings, parts)),
+          bindings = finder.findBindings(root, { removePlaceholderAttributes: true, normalizeAttributes: true }),
+          div = root.childNodes[1] as Element,
+          [element, comment, textarea] = Array.from(div.childNodes);
+
+    expect(div.outerHTML).toBe(
+      `<div class="a  b"><tag::4::><!--::5::--></tag::4::><!-- ::7:: --><textarea>::8::</textarea></div>`);
+    expect(bindings).toEqual([
+      { type: LiteralPart.Kind.Attribute, element: div, attributeName: ".innerHTML" },
+      { type: LiteralPart.Kind.Data, element: div },
+      { type: LiteralPart.Kind.Attribute, element: div, attributeName: "class" },
+      { type: LiteralPart.Kind.Attribute, element: div, attributeName: "class" },
+      { type: LiteralPart.Kind.TagName, element },
+      { type: LiteralPart.Kind.Node, parent: element, before: element.firstChild },
+      { type: LiteralPart.Kind.TagName, element },
+      { type: LiteralPart.Kind.Comment, comment },
+      { type: LiteralPart.Kind.Text, text: textarea.firstChild },
+    ]);
+    expect(bindings[3]).toBe(bindings[2]);
+    expect(bindings[6]).toBe(bindings[4]);
+  });
+
+  test("can find and dispose event listeners", () => {
+    const strings = literal`<button @click.passive=${0} title=${1}>`,
+          parts = parseHtmlLiteral(strings),
+          finder = new LiteralNodesFinder(parts),
+          root = finder.adapter.parseFragment(renderToHtml(strings, parts)),
+          bindings = finder.findBindings(root, { removePlaceholderAttributes: true }),
+          { listener } = bindings[0] as LiteralBinding.Attribute<Node>,
+          handler = jest.fn();
+
+    expect(listener!.target).toBe(root.firstChild);
+    expect(listener!.type).toBe("click");
+    expect(listener!.options).toEqual({ capture: false, once: false, passive: true });
+    expect((bindings[1] as LiteralBinding.Attribute<Node>).listener).toBeUndefined();
+
+    listener!.update(handler);
+    (root.firstChild as HTMLElement).click();
+    disposeBindings(bindings);
+    (root.firstChild as HTMLElement).click();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test("can find the ranges of nodes", () => {
+    const strings = literal`<p>${0}${1}</p>${2}`,
+          parts = parseHtmlLiteral(strings),
+          html = renderToHtml(strings, parts, { nodeRanges: true }),
+          finder = new LiteralNodesFinder(parts, undefined, { nodeRanges: true, verify: true }),
+          root = finder.adapter.parseFragment(html),
+          [a, b, c] = finder.findBindings(root) as LiteralBinding.Node<Node>[],
+          p = root.firstChild as Element;
+
+    expect(html).toBe(`<p><!--::0::--><!--/::0::--><!--::1::--><!--/::1::--></p><!--::2::--><!--/::2::-->`);
+    expect(a.range!.start).toBe(p.childNodes[0]);
+    expect(a.range!.end).toBe(p.childNodes[1]);
+    expect(a.before).toBe(a.range!.end);
+    expect(c.parent).toBe(root);
+
+    b.range!.replace(document.createTextNode("b"), document.createTextNode("c"));
+    a.range!.insert(document.createTextNode("a"));
+    c.range!.insert(document.createElement("br"));
+
+    expect(p.textContent).toBe("abc");
+    expect(b.range!.nodes.map((node) => node.textContent)).toEqual(["b", "c"]);
+
+    b.range!.replace(document.createTextNode("d"));
+    a.range!.insert(document.createTextNode("_"), a.range!.nodes[0]);
+    a.range!.clear();
+
+    expect(p.innerHTML).toBe(`<!--::0::--><!--/::0::--><!--::1::-->d<!--/::1::-->`);
+    expect(root.lastChild!.previousSibling!.nodeName).toBe("BR");
+    expect(finder.find(root)).toEqual([p.childNodes[0], p.childNodes[2], root.childNodes[1]]);
+  });
+
+  test("rejects ranges that do not match the rendered HTML", () => {
+    const strings = literal`<p>${0}</p>`,
+          parts = parseHtmlLiteral(strings),
+          finder = new LiteralNodesFinder(parts, undefined, { nodeRanges: true });
+
+    expect(() => finder.findBindings(finder.adapter.parseFragment(renderToHtml(strings, parts))))
+      .toThrow("Missing end comment of the range of binding 0.");
+    expect(() => finder.findBindings(finder.adapter.parseFragment(`<p><!--::0::--><!--/::1::--></p>`)))
+      .toThrow("Missing end comment of the range of binding 0.");
+
+    const root = finder.adapter.parseFragment(renderToHtml(strings, parts, { nodeRanges: true })),
+          { range } = finder.findBindings(root)[0] as LiteralBinding.Node<Node>;
+
+    root.appendChild(range!.end);
+
+    expect(() => range!.nodes).toThrow("The end of the range is not a sibling following its start.");
+  });
+
+  test("can verify found nodes", () => {
+    const strings = literal`<a title=${0}></a><b title=${1}></b>`,
+          parts = parseHtmlLiteral(strings),
+          finder = new LiteralNodesFinder(parts, undefined, { verify: true });
+
+    expect(finder.findInHtml(renderToHtml(strings, parts))).toHaveLength(2);
+    expect(() => finder.findInHtml(`<a title=::0::></a><b title=::0::></b>`))
+      .toThrow("Node found for binding 1 does not match its placeholder.");
+  });
+
+  test("can find the original names of renamed attributes", () => {
+    const strings = literal`<div .innerHTML=${0} @myEvent="${1}" title=${2}>`,
+          template = compileTemplate(strings),
+          [innerHTML, myEvent, title] = template.clone().nodes as Attr[];
+
+    expect(innerHTML.name).toBe("::0::");
+    expect(template.finder.getAttributeName(innerHTML)).toBe(".innerHTML");
+    expect(template.finder.getAttributeName(myEvent)).toBe("@myEvent");
+    expect(template.finder.getAttributeName(title)).toBe("title");
+    expect(template.attributeNames).toEqual(new Map([["::0::", ".innerHTML"], ["::1::", "@myEvent"]]));
+  });
+
   test("can find a simple data part", () => {
     const [root, nodes, expectSecondComputationToMatch] = findNodes`<div ${0}>`;
 
@@ -210,6 +1582,45 @@ describe("LiteralNodesFinder", () => {
     expectSecondComputationToMatch();
   });
 
+  test("can find raw text", () => {
+    const [root, nodes, expectSecondComputationToMatch] = findNodes`
+      <textarea>
+${0}</textarea><script>${1} < ${2}</script><style>${3}</style>${4}`;
+
+    expect(nodes[0]).toBe(root.children[0].childNodes[0]);
+    expect(nodes[1]).toBe(root.children[1].childNodes[0]);
+    expect(nodes[2]).toBe(root.children[1].childNodes[0]);
+    expect(nodes[3]).toBe(root.children[2].childNodes[0]);
+    expect(nodes[4]).toBe(root.childNodes[root.childNodes.length - 1]);
+    expectSecondComputationToMatch();
+  });
+
+  test("can find text with character references", () => {
+    const [root, nodes] = findNodes`<textarea>&amp; ${0}</textarea><title>&lt;${1} &#x41;${2}</title>`;
+
+    expect(nodes[0]).toBe(root.children[0].firstChild);
+    expect(nodes[1]).toBe(root.children[1].firstChild);
+    expect(nodes[2]).toBe(root.children[1].firstChild);
+  });
+
+  test("can find dynamic names", () => {
+    const [root, nodes, expectSecondComputationToMatch] = findNodes`
+      <p ${0}><${1}-${2} a=b data-${3}=${4}><i ${5}></i></${6}-${7}><b ${8}>`;
+    const element = root.children[0].children[0];
+
+    expect(element.localName).toBe("tag::1::-tag::2::");
+    expect((nodes[0] as Attr).ownerElement).toBe(root.children[0]);
+    expect(nodes[1]).toBe(element);
+    expect(nodes[2]).toBe(element);
+    expect(nodes[3]).toBe(element.attributes.getNamedItem("data-::3::"));
+    expect(nodes[4]).toBe(element.attributes.getNamedItem("data-::3::"));
+    expect((nodes[5] as Attr).ownerElement).toBe(element.children[0]);
+    expect(nodes[6]).toBe(element);
+    expect(nodes[7]).toBe(element);
+    expect((nodes[8] as Attr).ownerElement).toBe(root.children[0].children[1]);
+    expectSecondComputationToMatch();
+  });
+
   test("can find mixed nodes", () => {
     const [root, nodes, expectSecondComputationToMatch] = findNodes`
       <div ${0}><span id=${1}>xxx<b class="${2} ${3}" ${4}>${5}${6}<i></i>${7}</b><!-- xx${8} -->`;
@@ -226,11 +1637,92 @@ describe("LiteralNodesFinder", () => {
     expect(nodes[8]).toBe(div.children[0].childNodes[2]);
     expectSecondComputationToMatch();
   });
+
+  test("can find nodes in foreign fragments", () => {
+    const strings = literal`<circle r=${0} ${1}/>${2}<foreignObject>${3}</foreignObject>`,
+          parts = parseHtmlLiteral(strings, { namespace: Namespace.Svg }),
+          finder = new LiteralNodesFinder(parts),
+          nodes = finder.findInHtml(renderToHtml(strings, parts), Namespace.Svg),
+          circle = (nodes[0] as Attr).ownerElement!;
+
+    expect(circle.namespaceURI).toBe(Namespace.Svg);
+    expect(circle.localName).toBe("circle");
+    expect((nodes[1] as Attr).ownerElement).toBe(circle);
+    expect(nodes[2]).toBe(circle.nextSibling);
+    expect((nodes[3] as Node).parentElement!.namespaceURI).toBe(Namespace.Svg);
+    expect((nodes[3] as Node).parentElement!.localName).toBe("foreignObject");
+  });
+
+  test("can find nodes without a DOM", () => {
+    const strings = literal`<div ${0}><textarea>\n${1}</textarea><p title="${2}">${3}</p><!-- ${4} --><${5}></${6}>`,
+          parts = parseHtmlLiteral(strings),
+          finder = new LiteralNodesFinder(parts, templateTreeAdapter),
+          template = finder.adapter.parseFragment(renderToHtml(strings, parts)) as HtmlTemplate,
+          nodes = finder.find(template),
+          div = template.children[0] as TemplateNode.Element,
+          [textarea, p, comment, element] = div.children as TemplateNode.Element[];
+
+    expect(nodes[0]).toBe(div.attributes[0]);
+    expect(nodes[1]).toBe(textarea.children[0]);
+    expect(nodes[2]).toBe(p.attributes[0]);
+    expect(nodes[3]).toBe(p.children[0]);
+    expect(nodes[4]).toBe(comment);
+    expect(nodes[5]).toBe(element);
+    expect(nodes[6]).toBe(element);
+    expect(finder.find(template)).toEqual(nodes);
+
+    // @ts-expect-error The adapter cannot be omitted if the nodes are not DOM nodes.
+    expect(new LiteralNodesFinder<TemplateTreeNode, TemplateNode.Attribute>(parts).adapter).toBe(domTreeAdapter);
+  });
+
+  test("can find bindings without a DOM", () => {
+    const strings = literal`<div ${0} data-${1}=a${2}>${3}${4}</div>`,
+          parts = parseHtmlLiteral(strings),
+          finder = new LiteralNodesFinder(parts, templateTreeAdapter),
+          template = finder.adapter.parseFragment(renderToHtml(strings, parts)) as HtmlTemplate,
+          bindings = finder.findBindings(template),
+          div = template.children[0] as TemplateNode.Element;
+
+    expect(bindings).toEqual([
+      { type: LiteralPart.Kind.Data, element: div },
+      { type: LiteralPart.Kind.AttributeName, element: div, attributeName: "data-::1::" },
+      { type: LiteralPart.Kind.Attribute, element: div, attributeName: "data-::1::" },
+      { type: LiteralPart.Kind.Node, parent: div, before: div.children[0] },
+      { type: LiteralPart.Kind.Node, parent: div, before: div.children[1] },
+    ]);
+    expect(() => finder.findBindings(template, { normalizeAttributes: true }))
+      .toThrow("The adapter of the finder cannot modify attributes.");
+
+    const rangeFinder = new LiteralNodesFinder(parts, templateTreeAdapter, { nodeRanges: true }),
+          rangeTemplate = rangeFinder.adapter.parseFragment(
+            renderToHtml(strings, parts, { nodeRanges: true })) as HtmlTemplate,
+          { range } = rangeFinder.findBindings(rangeTemplate)[3] as LiteralBinding.Node<TemplateTreeNode>,
+          rangeDiv = rangeTemplate.children[0] as TemplateNode.Element;
+
+    expect(range!.start).toBe(rangeDiv.children[0]);
+    expect(range!.end).toBe(rangeDiv.children[1]);
+    expect(range!.nodes).toEqual([]);
+    expect(() => range!.clear()).toThrow("The adapter of the range cannot modify nodes.");
+  });
+
+  test("can hydrate nodes without a DOM", () => {
+    const strings = literal`<p class=${0}>${1}</p>`,
+          parts = parseHtmlLiteral(strings),
+          finder = new LiteralNodesFinder(parts, templateTreeAdapter),
+          template = finder.adapter.parseFragment(
+            renderToString(strings, parts, ["a", "b"], { hydratable: true })) as HtmlTemplate,
+          nodes = finder.hydrate(template),
+          p = template.children[0] as TemplateNode.Element;
+
+    expect(nodes[0]).toBe(p.attributes[1]);
+    expect(nodes[1]).toEqual({ start: p.children[0], end: p.children[2] });
+  });
 });
 
 type PartMatcher =
   | "node" | "data" | "comment"
-  | { attr: string, parts: readonly string[], index: number };
+  | { attr: string, parts: readonly string[], index: number }
+  | { text: string, parts: readonly string[], index: number };
 
 declare global {
   namespace jest {
@@ -257,6 +1749,7 @@ expect.extend({
       const actualType = actual.type === LiteralPart.Kind.Comment ? "comment"
                        : actual.type === LiteralPart.Kind.Data ? "data"
                        : actual.type === LiteralPart.Kind.Node ? "node"
+                       : actual.type === LiteralPart.Kind.Text ? "text"
                        : "attribute";
 
       if (typeof expected === "string") {
@@ -266,6 +1759,35 @@ expect.extend({
             message: () => `expected part #${i} to have type ${expected} instead of ${actualType}`,
           };
         }
+      } else if ("text" in expected) {
+        if (actual.type !== LiteralPart.Kind.Text) {
+          return {
+            pass: false,
+            message: () => `expected part #${i} to be a text instead of a ${actualType}`,
+          };
+        }
+        if (actual.tagName !== expected.text) {
+          return {
+            pass: false,
+            message: () => `expected part #${i} to be in element '${expected.text}' ` +
+                           `instead of '${actual.tagName}'`,
+          };
+        }
+        if (!this.equals([...actual.valueParts], expected.parts)) {
+          return {
+            pass: false,
+            message: () => `expected part #${i} to have text parts ` +
+                           `${JSON.stringify(expected.parts)} instead of ` +
+                           `${JSON.stringify(actual.valueParts)}`,
+          };
+        }
+        if (actual.index !== expected.index) {
+          return {
+            pass: false,
+            message: () => `expected part #${i} to have text at index ` +
+                           `${expected.index} instead of ${actual.index}`,
+          };
+        }
       } else {
         if (actual.type !== LiteralPart.Kind.Attribute) {
           return {
@@ -305,10 +1827,72 @@ expect.extend({
   },
 });
 
+function literal(strings: TemplateStringsArray, ..._: any[]) {
+  return strings;
+}
+
+function parseParts(strings: TemplateStringsArray, ..._: any[]) {
+  return parseHtmlLiteral(strings);
+}
+
 function expectHtmlLiteralParts(strings: TemplateStringsArray, ..._: any[]) {
   return expect(parseHtmlLiteral(strings));
 }
 
+function templateResult(strings: TemplateStringsArray, ...values: unknown[]) {
+  return new TemplateResult(strings, parseHtmlLiteral(strings), values);
+}
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((resolvePromise) => resolve = resolvePromise);
+
+  return { promise, resolve };
+}
+
+async function* asyncIterable<T>(values: readonly T[]) {
+  for (const value of values) {
+    yield value;
+  }
+}
+
+function flushPromises() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function parseTemplate(strings: TemplateStringsArray, ..._: any[]) {
+  return parseHtmlTemplate(strings);
+}
+
+/**
+ * Returns the slices of the source of the given template spanned by its nodes
+ * and attributes, in depth-first order.
+ */
+function sourceSlices(template: ReturnType<typeof parseHtmlTemplate>) {
+  const slices = [] as string[];
+
+  function visit(node: TemplateNode | TemplateNode.Attribute) {
+    slices.push(template.source.slice(node.start, node.end));
+
+    if (node.kind === TemplateNode.Kind.Element) {
+      node.attributes.forEach(visit);
+      node.children.forEach(visit);
+    }
+  }
+
+  template.children.forEach(visit);
+
+  return slices;
+}
+
+function expectUnterminatedConstruct(strings: TemplateStringsArray, ..._: any[]) {
+  const { diagnostics } = parseHtmlLiteral(strings, { recover: true });
+
+  return expect(diagnostics.length === 0
+    ? []
+    : [diagnostics[0].reason, diagnostics[0].line, diagnostics[0].column]);
+}
+
 function expectHtmlString(strings: TemplateStringsArray, ..._: any[]) {
   return expect(renderToHtml(strings, parseHtmlLiteral(strings)));
 }
@@ -325,9 +1909,10 @@ function expectHtmlString(strings: TemplateStringsArray, ..._: any[]) {
  */
 function findNodes(strings: TemplateStringsArray, ..._: any[]) {
   const parts = parseHtmlLiteral(strings),
-        htmlString = renderToHtml(strings, parts),
+        markers = getUniqueMarkerScheme(strings),
+        htmlString = renderToHtml(strings, parts, { markers }),
         root = document.createRange().createContextualFragment(htmlString),
-        finder = new LiteralNodesFinder(parts),
+        finder = new LiteralNodesFinder(parts, undefined, { markers, verify: true }),
         nodes = finder.find(root);
 
   return [root, nodes, () => expect(finder.find(root)).toEqual(nodes)] as const;
@@ -1,3 +1,5 @@
+/// <reference lib="es2018.asynciterable" />
+
 /**
  * A part of a literal parsed by `parseHtmlLiteral`.
  */
@@ -5,7 +7,11 @@ export type LiteralPart =
   | LiteralPart.Data
   | LiteralPart.Node
   | LiteralPart.Comment
-  | LiteralPart.Attribute;
+  | LiteralPart.Attribute
+  | LiteralPart.Text
+  | LiteralPart.TagName
+  | LiteralPart.AttributeName
+  | LiteralPart.Invalid;
 
 export namespace LiteralPart {
   /**
@@ -23,6 +29,39 @@ export namespace LiteralPart {
 
     /** Kind of `Attribute` parts. */
     Attribute,
+
+    /** Kind of `Text` parts. */
+    Text,
+
+    /** Kind of `TagName` parts. */
+    TagName,
+
+    /** Kind of `AttributeName` parts. */
+    AttributeName,
+
+    /** Kind of `Invalid` parts. */
+    Invalid,
+  }
+
+  /**
+   * How an `Attribute` is bound, as determined by the prefix of its name (see
+   * `ParseHtmlLiteralOptions.attributePrefixes`).
+   */
+  export const enum AttributeKind {
+    /** A regular attribute, e.g. `title=${0}`. */
+    Attribute,
+
+    /** A property of the element, e.g. `.value=${0}` by default. */
+    Property,
+
+    /** An event listener, e.g. `@click=${0}` by default. */
+    Event,
+
+    /** An attribute set if its value is truthy, e.g. `?hidden=${0}` by default. */
+    BooleanAttribute,
+
+    /** A binding interpreted by the caller, e.g. `:foo=${0}` if configured. */
+    Custom,
   }
 
   /**
@@ -36,16 +75,24 @@ export namespace LiteralPart {
     /** The type of the literal part, ie. `Node`. */
     public readonly type = Kind.Node;
 
-    public constructor() {
+    public constructor(
+      /**
+       * The lowercase name of the element in which the node is, or `undefined`
+       * if it is at the root of the literal.
+       */
+      public readonly tagName: string | undefined,
+      /** The lowercase names of the ancestors of `tagName`, outermost first. */
+      public readonly ancestors: readonly string[],
+      /**
+       * The namespace in which the nodes of the binding are created, i.e. the
+       * namespace of the contents of its parent.
+       */
+      public readonly namespace: Namespace,
+    ) {
       Object.freeze(this);
     }
   }
 
-  export namespace Node {
-    /** The unique instance of `Node`. */
-    export const instance = new Node();
-  }
-
   /**
    * A piece of data, for instance:
    *
@@ -57,16 +104,18 @@ export namespace LiteralPart {
     /** The type of the literal part, ie. `Data`. */
     public readonly type = Kind.Data;
 
-    public constructor() {
+    public constructor(
+      /** The lowercase name of the element on which the data is, e.g. `"p"`. */
+      public readonly tagName: string,
+      /** The lowercase names of the ancestors of `tagName`, outermost first. */
+      public readonly ancestors: readonly string[],
+      /** The namespace of the element on which the data is. */
+      public readonly namespace: Namespace,
+    ) {
       Object.freeze(this);
     }
   }
 
-  export namespace Data {
-    /** The unique instance of `Data`. */
-    export const instance = new Data();
-  }
-
   /**
    * A comment, for instance:
    *
@@ -78,16 +127,24 @@ export namespace LiteralPart {
     /** The type of the literal part, ie. `Comment`. */
     public readonly type = Kind.Comment;
 
-    public constructor() {
+    public constructor(
+      /**
+       * The lowercase name of the element in which the comment is, or
+       * `undefined` if it is at the root of the literal.
+       */
+      public readonly tagName: string | undefined,
+      /** The lowercase names of the ancestors of `tagName`, outermost first. */
+      public readonly ancestors: readonly string[],
+      /**
+       * The namespace in which the comment is, i.e. the namespace of the
+       * contents of its parent.
+       */
+      public readonly namespace: Namespace,
+    ) {
       Object.freeze(this);
     }
   }
 
-  export namespace Comment {
-    /** The unique instance of `Comment`. */
-    export const instance = new Comment();
-  }
-
   /**
    * An attribute value, for instance:
    *
@@ -106,10 +163,190 @@ export namespace LiteralPart {
       public readonly valueParts: TemplateStringsArray,
       /** The index of the part that this literal part represents, e.g. `0`. */
       public readonly index: number,
+      /** The lowercase name of the element on which the attribute is, e.g. `"a"`. */
+      public readonly tagName: string,
+      /** The lowercase names of the ancestors of `tagName`, outermost first. */
+      public readonly ancestors: readonly string[],
+      /**
+       * The attributes of the element that do not contain any binding, in
+       * order of appearance. This array is shared by all the `Attribute`s of
+       * the element.
+       */
+      public readonly staticAttributes: readonly StaticAttribute[],
+      /** The namespace of the element on which the attribute is. */
+      public readonly namespace: Namespace,
+      /** How the attribute is bound, as determined by the prefix of its name. */
+      public readonly kind: AttributeKind,
+      /**
+       * The name of the attribute without its prefix (if any), with its case
+       * preserved, e.g. `"innerHTML"` in `.innerHTML=${0}`.
+       */
+      public readonly name: string,
+    ) {
+      Object.freeze(this);
+    }
+  }
+
+  /**
+   * Text in an element whose contents are not parsed as HTML, i.e. `<script>`,
+   * `<style>`, `<textarea>` and `<title>` (as well as legacy `<xmp>`,
+   * `<iframe>`, `<noembed>` and `<noframes>`), or in a CDATA section of foreign
+   * content, for instance:
+   *
+   * ```html
+   * <textarea>Hello, $0!</textarea>
+   * <svg><![CDATA[ $0 ]]></svg>
+   * ```
+   */
+  export class Text {
+    /** The type of the literal part, ie. `Text`. */
+    public readonly type = Kind.Text;
+
+    public constructor(
+      /** The parts of the text, e.g. `["Hello, ", "!"]`. */
+      public readonly valueParts: TemplateStringsArray,
+      /** The index of the part that this literal part represents, e.g. `0`. */
+      public readonly index: number,
+      /**
+       * The lowercase name of the element in which the text is, e.g.
+       * `"textarea"`, or `""` if it is at the root of the literal.
+       */
+      public readonly tagName: string,
+      /** The lowercase names of the ancestors of `tagName`, outermost first. */
+      public readonly ancestors: readonly string[],
+      /**
+       * The namespace of the contents of the element in which the text is, i.e.
+       * `Namespace.Html` for raw text, or a foreign namespace in CDATA sections.
+       */
+      public readonly namespace: Namespace,
+    ) {
+      Object.freeze(this);
+    }
+  }
+
+  /**
+   * (Part of) the name of an element, for instance:
+   *
+   * ```html
+   * <$0 class="item"></$1>
+   * <my-$0></my-$1>
+   * ```
+   *
+   * The name of an element with a dynamic name, as reported by the `tagName`
+   * of parts, is made of its static parts joined with `"${}"`, e.g. `"my-${}"`.
+   */
+  export class TagName {
+    /** The type of the literal part, ie. `TagName`. */
+    public readonly type = Kind.TagName;
+
+    public constructor(
+      /** The parts of the tag name, e.g. `["my-", ""]`. */
+      public readonly nameParts: TemplateStringsArray,
+      /** The index of the part that this literal part represents, e.g. `0`. */
+      public readonly index: number,
+      /**
+       * If the part is in an end tag, the index of the corresponding part in
+       * the start tag of the element that it closes (i.e. the innermost open
+       * element with the same name). Otherwise, `-1`.
+       */
+      public readonly startTagPartIndex: number,
+      /** The lowercase name of the element, e.g. `"my-${}"`. */
+      public readonly tagName: string,
+      /** The lowercase names of the ancestors of `tagName`, outermost first. */
+      public readonly ancestors: readonly string[],
+      /** The namespace of the element, e.g. `Namespace.Svg` in `<svg>`. */
+      public readonly namespace: Namespace,
+    ) {
+      Object.freeze(this);
+    }
+  }
+
+  /**
+   * (Part of) the name of an attribute, for instance:
+   *
+   * ```html
+   * <a $0="foo"></a>
+   * <a data-$0=$1></a>
+   * ```
+   *
+   * The name of an attribute with a dynamic name, as reported by the
+   * `attributeName` of `Attribute` parts, is made of its static parts joined
+   * with `"${}"`, e.g. `"data-${}"`.
+   */
+  export class AttributeName {
+    /** The type of the literal part, ie. `AttributeName`. */
+    public readonly type = Kind.AttributeName;
+
+    public constructor(
+      /** The parts of the attribute name, e.g. `["data-", ""]`. */
+      public readonly nameParts: TemplateStringsArray,
+      /** The index of the part that this literal part represents, e.g. `0`. */
+      public readonly index: number,
+      /** The lowercase name of the element on which the attribute is, e.g. `"a"`. */
+      public readonly tagName: string,
+      /** The lowercase names of the ancestors of `tagName`, outermost first. */
+      public readonly ancestors: readonly string[],
+      /** The namespace of the element on which the attribute is. */
+      public readonly namespace: Namespace,
+    ) {
+      Object.freeze(this);
+    }
+  }
+
+  /**
+   * A binding that could not be parsed, only returned by `parseHtmlLiteral`
+   * when it recovers from errors, for instance:
+   *
+   * ```html
+   * <a href="/"$0></a>
+   * ```
+   */
+  export class Invalid {
+    /** The type of the literal part, ie. `Invalid`. */
+    public readonly type = Kind.Invalid;
+
+    public constructor(
+      /** The error encountered at the binding. */
+      public readonly error: HtmlLiteralSyntaxError,
+      /**
+       * The lowercase name of the element in which the binding is, or
+       * `undefined` if it is at the root of the literal.
+       */
+      public readonly tagName: string | undefined,
+      /** The lowercase names of the ancestors of `tagName`, outermost first. */
+      public readonly ancestors: readonly string[],
+      /** The namespace of the contents of the element in which the binding is. */
+      public readonly namespace: Namespace,
     ) {
       Object.freeze(this);
     }
   }
+
+  /**
+   * An attribute without any binding, e.g. `target="_blank"`.
+   */
+  export interface StaticAttribute {
+    /** The name of the attribute, e.g. `"target"`. */
+    readonly name: string;
+    /** The value of the attribute, e.g. `"_blank"`, or `""` if it has none. */
+    readonly value: string;
+  }
+}
+
+/**
+ * The namespace of an element, e.g. `Namespace.Svg` for elements in `<svg>`.
+ * Elements in `<foreignObject>`, `<desc>` and `<title>` in SVG, and in text
+ * elements (e.g. `<mi>`) in MathML are in the HTML namespace.
+ */
+export const enum Namespace {
+  /** The HTML namespace. */
+  Html = "http://www.w3.org/1999/xhtml",
+
+  /** The SVG namespace. */
+  Svg = "http://www.w3.org/2000/svg",
+
+  /** The MathML namespace. */
+  MathMl = "http://www.w3.org/1998/Math/MathML",
 }
 
 /**
@@ -150,33 +387,499 @@ export namespace LiteralPart {
  * expect(part2.index).toBe(0);
  * ```
  */
-export function parseHtmlLiteral(strings: readonly string[]) {
-  const parts = new Array<LiteralPart>(strings.length - 1);
+export function parseHtmlLiteral(
+  strings: readonly string[],
+  options: ParseHtmlLiteralOptions & { readonly recover: true },
+): ParseHtmlLiteralResult;
+export function parseHtmlLiteral(
+  strings: readonly string[],
+  options?: ParseHtmlLiteralOptions & { readonly recover?: false },
+): LiteralPart[];
+
+export function parseHtmlLiteral(
+  strings: readonly string[],
+  options?: ParseHtmlLiteralOptions,
+): LiteralPart[] | ParseHtmlLiteralResult {
+  return tokenize(strings, options, undefined);
+}
+
+/**
+ * Tokenizes the given strings into `LiteralPart`s, reporting the constructs it
+ * encounters to the given `TemplateTreeBuilder` (if any).
+ */
+function tokenize(
+  strings: readonly string[],
+  options: ParseHtmlLiteralOptions | undefined,
+  builder: TemplateTreeBuilder | undefined,
+): LiteralPart[] | ParseHtmlLiteralResult {
+  const parts = new Array<LiteralPart>(strings.length - 1),
+        diagnostics = options?.recover ? [] as HtmlLiteralSyntaxError[] : undefined;
+
+  const openElements = [] as string[],
+        // For each open element, the index of the first part in its tag name,
+        // or -1 if its name is static.
+        openElementsPartIndices = [] as number[],
+        // For each open element, its namespace and the namespace of its
+        // contents.
+        openElementsNamespaces = [] as Namespace[],
+        openElementsContentNamespaces = [] as Namespace[],
+        rootNamespace = options?.namespace ?? Namespace.Html,
+        attributePrefixes = options?.attributePrefixes ?? defaultAttributePrefixes,
+        // The indices of the parts in the current tag name.
+        tagNamePartIndices = [] as number[];
 
   let state = State.DATA,
+      stringi = 0,
       nameStart = 0,
       valueStart = 0,
+      tagStart = 0,
+      tagName = "",
+      tagNameParts = createTemplateStringsArray(),
+      tagNamespace = rootNamespace,
+      isEndTag = false,
       attributeName = "",
-      attributeValueParts = [] as string[] & { raw: string[] };
+      attributeNameParts = createTemplateStringsArray(),
+      hasDynamicAttributeName = false,
+      // The kind of the current attribute and its name without its prefix.
+      attributeKind = LiteralPart.AttributeKind.Attribute,
+      unprefixedAttributeName = "",
+      valueParts = createTemplateStringsArray(),
+      staticAttributes = [] as LiteralPart.StaticAttribute[],
+      openElementsSnapshot: readonly string[] | undefined,
+      ancestorsSnapshot: readonly string[] | undefined,
+      // Locations of the last `<`, of the start tag of the current raw text
+      // element, and of the start (or quote) of the current attribute value,
+      // used to report unterminated constructs.
+      markupStringIndex = 0,
+      markupOffset = 0,
+      rawTextStringIndex = 0,
+      rawTextOffset = 0,
+      valueStringIndex = 0,
+      valueOffset = 0,
+      // Locations of the start of the current text and of the current
+      // attribute, only used by the `builder`.
+      textStringIndex = 0,
+      textOffset = 0,
+      attributeStringIndex = 0,
+      attributeOffset = 0;
+
+  function reportError(error: HtmlLiteralSyntaxError) {
+    if (diagnostics === undefined) {
+      throw error;
+    }
+
+    diagnostics.push(error);
+  }
+
+  /**
+   * Returns an error describing the construct left open at the end of the
+   * literal, if any. The error points to the start of the construct.
+   */
+  function getUnterminatedConstructError() {
+    switch (state) {
+      case State.MARKUP_DECLARATION_OPEN:
+      case State.BOGUS_COMMENT:
+      case State.COMMENT_START:
+      case State.COMMENT_START_DASH:
+      case State.COMMENT:
+      case State.COMMENT_LESS_THAN_SIGN:
+      case State.COMMENT_LESS_THAN_SIGN_BANG:
+      case State.COMMENT_LESS_THAN_SIGN_BANG_DASH:
+      case State.COMMENT_LESS_THAN_SIGN_BANG_DASH_DASH:
+      case State.COMMENT_END_DASH:
+      case State.COMMENT_END:
+      case State.COMMENT_END_BANG:
+        return new HtmlLiteralSyntaxError(
+          "Unterminated comment", strings, markupStringIndex, markupOffset, -1,
+          stateNames[state]);
+
+      case State.TAG_NAME:
+      case State.BEFORE_ATTRIBUTE_NAME:
+      case State.ATTRIBUTE_NAME:
+      case State.AFTER_ATTRIBUTE_NAME:
+      case State.BEFORE_ATTRIBUTE_VALUE:
+      case State.ATTRIBUTE_VALUE_UNQUOTED:
+      case State.AFTER_ATTRIBUTE_VALUE_QUOTED:
+      case State.SELF_CLOSING_START_TAG:
+        return new HtmlLiteralSyntaxError(
+          `Unterminated ${isEndTag ? "end tag </" : "tag <"}${tagName}>`, strings,
+          markupStringIndex, markupOffset, -1, stateNames[state]);
+
+      case State.ATTRIBUTE_VALUE_DOUBLE_QUOTED:
+      case State.ATTRIBUTE_VALUE_SINGLE_QUOTED:
+        return new HtmlLiteralSyntaxError(
+          `Unterminated value of attribute "${attributeName}" in tag <${tagName}>`, strings,
+          valueStringIndex, valueOffset, -1, stateNames[state]);
+
+      case State.RCDATA:
+      case State.RAWTEXT:
+      case State.SCRIPT_DATA:
+      case State.SCRIPT_DATA_ESCAPED:
+      case State.SCRIPT_DATA_ESCAPED_DASH:
+      case State.SCRIPT_DATA_ESCAPED_DASH_DASH:
+      case State.SCRIPT_DATA_DOUBLE_ESCAPED:
+      case State.SCRIPT_DATA_DOUBLE_ESCAPED_DASH:
+      case State.SCRIPT_DATA_DOUBLE_ESCAPED_DASH_DASH:
+        return new HtmlLiteralSyntaxError(
+          `Unterminated element <${tagName}>`, strings, rawTextStringIndex, rawTextOffset, -1,
+          stateNames[state]);
+
+      case State.CDATA_SECTION:
+      case State.CDATA_SECTION_BRACKET:
+      case State.CDATA_SECTION_END:
+        return new HtmlLiteralSyntaxError(
+          "Unterminated CDATA section", strings, markupStringIndex, markupOffset, -1,
+          stateNames[state]);
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Reports the text between the end of the last construct and the given
+   * location to the `builder`.
+   */
+  function quitData(stringIndex: number, offset: number) {
+    builder?.text(textStringIndex, textOffset, stringIndex, offset);
+  }
+
+  function getOpenElements() {
+    if (openElementsSnapshot === undefined) {
+      openElementsSnapshot = Object.freeze(openElements.slice());
+    }
+
+    return openElementsSnapshot;
+  }
+
+  function getAncestors() {
+    if (ancestorsSnapshot === undefined) {
+      ancestorsSnapshot = Object.freeze(openElements.slice(0, -1));
+    }
+
+    return ancestorsSnapshot;
+  }
+
+  function getParentTagName() {
+    return openElements.length === 0 ? undefined : openElements[openElements.length - 1];
+  }
 
-  attributeValueParts.raw = attributeValueParts;
+  /**
+   * Returns the namespace of the contents of the current open element.
+   */
+  function getContentNamespace() {
+    return openElements.length === 0
+      ? rootNamespace
+      : openElementsContentNamespaces[openElementsContentNamespaces.length - 1];
+  }
+
+  /**
+   * Returns the namespace of the element whose start tag is being processed,
+   * first closing the foreign elements that it breaks out of (if any).
+   */
+  function getStartTagNamespace() {
+    const namespace = getContentNamespace();
+
+    if (namespace === Namespace.Html) {
+      const parentIndex = openElements.length - 1;
+
+      if (tagName === "svg") {
+        return Namespace.Svg;
+      } else if (tagName === "math") {
+        return Namespace.MathMl;
+      } else if ((tagName === "mglyph" || tagName === "malignmark")
+                 && parentIndex !== -1
+                 && openElementsNamespaces[parentIndex] === Namespace.MathMl) {
+        // <mi><mglyph>
+        return Namespace.MathMl;
+      }
+
+      return namespace;
+    }
+
+    if (tagName === "svg" && getParentTagName() === "annotation-xml") {
+      return Namespace.Svg;
+    }
+
+    if (breaksOutOfForeignContent(tagName)) {
+      let depth = openElements.length;
+
+      while (depth > 0 && openElementsContentNamespaces[depth - 1] !== Namespace.Html) {
+        depth--;
+      }
+
+      openElements.length = openElementsPartIndices.length = depth;
+      openElementsNamespaces.length = openElementsContentNamespaces.length = depth;
+      openElementsSnapshot = ancestorsSnapshot = undefined;
+      builder?.closeElements(depth);
+
+      return Namespace.Html;
+    }
+
+    return namespace;
+  }
 
   function getAttributeLiteralPart(string: string) {
-    const index = attributeValueParts.push(string.slice(valueStart)) - 1;
+    const index = valueParts.push(string.slice(valueStart)) - 1;
+
+    return new LiteralPart.Attribute(
+      attributeName, valueParts, index, tagName, getOpenElements(), staticAttributes, tagNamespace,
+      attributeKind, unprefixedAttributeName);
+  }
+
+  function getAttributeNameLiteralPart(string: string) {
+    const index = attributeNameParts.push(string) - 1;
 
-    return new LiteralPart.Attribute(attributeName, attributeValueParts, index);
+    return new LiteralPart.AttributeName(
+      attributeNameParts, index, tagName, getOpenElements(), tagNamespace);
+  }
+
+  function getTextLiteralPart(string: string) {
+    const index = valueParts.push(string.slice(valueStart)) - 1;
+
+    return new LiteralPart.Text(
+      valueParts, index, getParentTagName() ?? "", getAncestors(), getContentNamespace());
   }
 
   function quitAttribute(string: string, position: number) {
-    if (attributeValueParts.length > 0) {
-      attributeValueParts.push(string.slice(0, position));
-      Object.freeze(attributeValueParts);
-      attributeValueParts = [] as string[] & { raw: string[] };
-      attributeValueParts.raw = attributeValueParts;
+    builder?.attributeValue(valueStringIndex, valueOffset, stringi, position);
+
+    if (valueParts.length > 0) {
+      valueParts.push(string.slice(0, position));
+      Object.freeze(valueParts);
+      valueParts = createTemplateStringsArray();
+    } else if (!hasDynamicAttributeName) {
+      staticAttributes.push(Object.freeze({
+        name: attributeName,
+        value: string.slice(valueStart, position),
+      }));
+    }
+
+    attributeName = "";
+  }
+
+  function quitText(string: string, position: number) {
+    builder?.text(textStringIndex, textOffset, stringi, position);
+
+    if (valueParts.length > 0) {
+      valueParts.push(string.slice(0, position));
+      Object.freeze(valueParts);
+      valueParts = createTemplateStringsArray();
+    }
+  }
+
+  function quitValuelessAttribute() {
+    if (attributeName !== "") {
+      builder?.valuelessAttribute();
+
+      if (!hasDynamicAttributeName) {
+        staticAttributes.push(Object.freeze({ name: attributeName, value: "" }));
+      }
+
+      attributeName = "";
+    }
+  }
+
+  function quitAttributeName(string: string, position: number) {
+    if (attributeNameParts.length === 0) {
+      attributeName = string.slice(nameStart, position);
+
+      const prefix = getAttributePrefix(attributeName, attributePrefixes);
+
+      attributeKind = prefix === "" ? LiteralPart.AttributeKind.Attribute : attributePrefixes[prefix];
+      unprefixedAttributeName = attributeName.slice(prefix.length);
+      hasDynamicAttributeName = false;
+    } else {
+      attributeNameParts.push(string.slice(nameStart, position));
+      attributeName = unprefixedAttributeName = Object.freeze(attributeNameParts).join("${}");
+      attributeNameParts = createTemplateStringsArray();
+      attributeKind = LiteralPart.AttributeKind.Attribute;
+      hasDynamicAttributeName = true;
+    }
+
+    builder?.attributeName(attributeStringIndex, attributeOffset, stringi, position);
+  }
+
+  function quitTagName(string: string, position: number) {
+    const isDynamic = tagNameParts.length > 0;
+
+    if (isDynamic) {
+      tagNameParts.push(string.slice(tagStart, position));
+      tagName = Object.freeze(tagNameParts).join("${}").toLowerCase();
+    } else {
+      tagName = string.slice(tagStart, position).toLowerCase();
+    }
+
+    builder?.tagName(markupStringIndex, markupOffset, stringi, position, tagName, isEndTag);
+
+    if (isEndTag) {
+      const openElementIndex = openElements.lastIndexOf(tagName);
+
+      tagNamespace = openElementIndex === -1
+        ? getContentNamespace()
+        : openElementsNamespaces[openElementIndex];
+    } else {
+      tagNamespace = getStartTagNamespace();
+    }
+
+    if (!isDynamic) {
+      return;
+    }
+
+    // Parts in a tag name are only created now, since the index of the start
+    // tag matching an end tag can only be determined once its name is known.
+    let startTagPartIndex = -1,
+        ancestors = getOpenElements();
+
+    if (isEndTag) {
+      const openElementIndex = openElements.lastIndexOf(tagName);
+
+      if (openElementIndex === -1 || openElementsPartIndices[openElementIndex] === -1) {
+        const error = createUnexpectedBindingError(
+          strings, tagNamePartIndices[0], State.TAG_NAME, "Unexpected end tag binding");
+
+        reportError(error);
+
+        for (let i = 0, len = tagNamePartIndices.length; i < len; i++) {
+          parts[tagNamePartIndices[i]] = new LiteralPart.Invalid(
+            error, getParentTagName(), getAncestors(), getContentNamespace());
+        }
+
+        tagNameParts = createTemplateStringsArray();
+
+        return;
+      }
+
+      startTagPartIndex = openElementsPartIndices[openElementIndex];
+      ancestors = Object.freeze(openElements.slice(0, openElementIndex));
+    }
+
+    for (let i = 0, len = tagNamePartIndices.length; i < len; i++) {
+      parts[tagNamePartIndices[i]] = new LiteralPart.TagName(
+        tagNameParts, i, startTagPartIndex === -1 ? -1 : startTagPartIndex + i, tagName, ancestors,
+        tagNamespace);
+    }
+
+    tagNameParts = createTemplateStringsArray();
+  }
+
+  /**
+   * Quits the current tag whose closing `>` is at the given position, returning
+   * the state of the tokenizer in the contents of the tag.
+   */
+  function quitTag(position: number) {
+    const startTagPartIndex = tagNamePartIndices.length === 0 ? -1 : tagNamePartIndices[0],
+          attributes = Object.freeze(staticAttributes),
+          // Foreign elements are closed by `/>`, but HTML elements are not.
+          isEmpty = tagNamespace === Namespace.Html
+            ? isVoidElement(tagName)
+            : state === State.SELF_CLOSING_START_TAG;
+
+    builder?.tag(stringi, position + 1, state === State.SELF_CLOSING_START_TAG, isEmpty, tagNamespace);
+    textStringIndex = stringi;
+    textOffset = position + 1;
+    staticAttributes = [];
+    attributeName = "";
+    tagNamePartIndices.length = 0;
+
+    if (isEndTag) {
+      const index = openElements.lastIndexOf(tagName);
+
+      if (index !== -1) {
+        openElements.length = openElementsPartIndices.length = index;
+        openElementsNamespaces.length = openElementsContentNamespaces.length = index;
+        openElementsSnapshot = ancestorsSnapshot = undefined;
+      }
+
+      return State.DATA;
+    }
+
+    if (isEmpty) {
+      return State.DATA;
+    }
+
+    openElements.push(tagName);
+    openElementsPartIndices.push(startTagPartIndex);
+    openElementsNamespaces.push(tagNamespace);
+    openElementsContentNamespaces.push(getElementContentNamespace(tagNamespace, tagName, attributes));
+    openElementsSnapshot = ancestorsSnapshot = undefined;
+    valueStart = position + 1;
+    rawTextStringIndex = markupStringIndex;
+    rawTextOffset = markupOffset;
+
+    return tagNamespace === Namespace.Html ? getContentState(tagName) : State.DATA;
+  }
+
+  /**
+   * Quits the current CDATA section whose closing `>` is at the given position,
+   * returning the state of the tokenizer after it.
+   */
+  function quitCdataSection(string: string, position: number) {
+    quitText(string, position - 2 /* ]] */);
+    textStringIndex = stringi;
+    textOffset = position + 1;
+
+    return State.DATA;
+  }
+
+  /**
+   * Quits the current comment whose closing `>` is at the given position,
+   * returning the state of the tokenizer after it.
+   */
+  function quitComment(position: number) {
+    builder?.comment(markupStringIndex, markupOffset, stringi, position + 1);
+    textStringIndex = stringi;
+    textOffset = position + 1;
+
+    return State.DATA;
+  }
+
+  /**
+   * Quits the text of a raw text element if the `<` at the given position
+   * starts its end tag, in which case `true` is returned.
+   */
+  function quitTextIfEndTag(string: string, position: number) {
+    if (string.charCodeAt(position + 1) !== Code.SLASH
+        || !matchesTagName(string, position + 2, tagName)) {
+      return false;
+    }
+
+    quitText(string, position);
+    state = State.TAG_NAME;
+    tagStart = position + 2;
+    isEndTag = true;
+    markupStringIndex = stringi;
+    markupOffset = position;
+
+    return true;
+  }
+
+  /**
+   * Handles a `<` at the given position in escaped or double-escaped script
+   * data, returning the position at which processing should resume.
+   */
+  function processEscapedScriptLessThanSign(string: string, position: number) {
+    if (state === State.SCRIPT_DATA_DOUBLE_ESCAPED) {
+      if (string.charCodeAt(position + 1) === Code.SLASH
+          && matchesTagName(string, position + 2, "script")) {
+        state = State.SCRIPT_DATA_ESCAPED;
+
+        return position + 7;
+      }
+    } else if (quitTextIfEndTag(string, position)) {
+      return position + 1;
+    } else if (matchesTagName(string, position + 1, "script")) {
+      state = State.SCRIPT_DATA_DOUBLE_ESCAPED;
+
+      return position + 6;
+    } else {
+      state = State.SCRIPT_DATA_ESCAPED;
     }
+
+    return position;
   }
 
-  for (let stringi = 0; stringi < strings.length; stringi++) {
+  for (stringi = 0; stringi < strings.length; stringi++) {
     const string = strings[stringi],
           len = string.length;
     valueStart = 0;
@@ -190,19 +893,26 @@ export function parseHtmlLiteral(strings: readonly string[]) {
         case State.DATA:
           if (code === Code.LT) {
             state = State.TAG_OPEN;
+            markupStringIndex = stringi;
+            markupOffset = pos;
           }
           break;
 
         case State.TAG_OPEN:
           if (code === Code.BANG) {
             state = State.MARKUP_DECLARATION_OPEN;
+            quitData(markupStringIndex, markupOffset);
           } else if (code === Code.SLASH) {
             state = State.END_TAG_OPEN;
+            quitData(markupStringIndex, markupOffset);
           } else if (isAsciiAlphaCode(code)) {
             state = State.TAG_NAME;
-            pos--;
+            quitData(markupStringIndex, markupOffset);
+            tagStart = pos--;
+            isEndTag = false;
           } else if (code === Code.QUESTION) {
             state = State.BOGUS_COMMENT;
+            quitData(markupStringIndex, markupOffset);
             pos--;
           } else {
             state = State.DATA;
@@ -213,9 +923,12 @@ export function parseHtmlLiteral(strings: readonly string[]) {
         case State.END_TAG_OPEN:
           if (isAsciiAlphaCode(code)) {
             state = State.TAG_NAME;
-            pos--;
+            tagStart = pos--;
+            isEndTag = true;
           } else if (code === Code.GT) {
             state = State.DATA;
+            textStringIndex = stringi;
+            textOffset = pos + 1;
           } else {
             state = State.BOGUS_COMMENT;
             pos--;
@@ -225,10 +938,13 @@ export function parseHtmlLiteral(strings: readonly string[]) {
         case State.TAG_NAME:
           if (isSpaceCode(code)) {
             state = State.BEFORE_ATTRIBUTE_NAME;
+            quitTagName(string, pos);
           } else if (code === Code.SLASH) {
             state = State.SELF_CLOSING_START_TAG;
+            quitTagName(string, pos);
           } else if (code === Code.GT) {
-            state = State.DATA;
+            quitTagName(string, pos);
+            state = quitTag(pos);
           }
           break;
 
@@ -240,21 +956,23 @@ export function parseHtmlLiteral(strings: readonly string[]) {
             pos--;
           } else if (code === Code.EQ) {
             state = State.ATTRIBUTE_NAME;
-            nameStart = pos + 1;
+            nameStart = attributeOffset = pos + 1;
+            attributeStringIndex = stringi;
           } else {
             state = State.ATTRIBUTE_NAME;
-            nameStart = pos;
-            pos--;
+            nameStart = attributeOffset = pos--;
+            attributeStringIndex = stringi;
           }
           break;
 
         case State.ATTRIBUTE_NAME:
           if (isSpaceCode(code) || code === Code.SLASH || code === Code.GT) {
             state = State.AFTER_ATTRIBUTE_NAME;
+            quitAttributeName(string, pos);
             pos--;
           } else if (code === Code.EQ) {
             state = State.BEFORE_ATTRIBUTE_VALUE;
-            attributeName = string.slice(nameStart, pos);
+            quitAttributeName(string, pos);
             valueStart = pos + 1;
           }
           break;
@@ -264,31 +982,42 @@ export function parseHtmlLiteral(strings: readonly string[]) {
             continue;
           } else if (code === Code.SLASH) {
             state = State.SELF_CLOSING_START_TAG;
+            quitValuelessAttribute();
           } else if (code === Code.EQ) {
             state = State.BEFORE_ATTRIBUTE_VALUE;
             valueStart = pos + 1;
           } else if (code === Code.GT) {
-            state = State.DATA;
+            quitValuelessAttribute();
+            state = quitTag(pos);
           } else {
             state = State.ATTRIBUTE_NAME;
-            nameStart = pos--;
+            quitValuelessAttribute();
+            nameStart = attributeOffset = pos--;
+            attributeStringIndex = stringi;
           }
           break;
 
         case State.BEFORE_ATTRIBUTE_VALUE:
           if (isSpaceCode(code)) {
+            valueStart = pos + 1;
             continue;
           } else if (code === Code.DQUOTE) {
             state = State.ATTRIBUTE_VALUE_DOUBLE_QUOTED;
             valueStart = pos + 1;
+            valueStringIndex = stringi;
+            valueOffset = pos;
           } else if (code === Code.SQUOTE) {
             state = State.ATTRIBUTE_VALUE_SINGLE_QUOTED;
             valueStart = pos + 1;
+            valueStringIndex = stringi;
+            valueOffset = pos;
           } else if (code === Code.GT) {
-            state = State.DATA;
+            quitValuelessAttribute();
+            state = quitTag(pos);
           } else {
             state = State.ATTRIBUTE_VALUE_UNQUOTED;
-            pos--;
+            valueStart = valueOffset = pos--;
+            valueStringIndex = stringi;
           }
           break;
 
@@ -311,8 +1040,8 @@ export function parseHtmlLiteral(strings: readonly string[]) {
             state = State.BEFORE_ATTRIBUTE_NAME;
             quitAttribute(string, pos);
           } else if (code === Code.GT) {
-            state = State.DATA;
             quitAttribute(string, pos);
+            state = quitTag(pos);
           }
           break;
 
@@ -322,7 +1051,7 @@ export function parseHtmlLiteral(strings: readonly string[]) {
           } else if (code === Code.SLASH) {
             state = State.SELF_CLOSING_START_TAG;
           } else if (code === Code.GT) {
-            state = State.DATA;
+            state = quitTag(pos);
           } else {
             state = State.BEFORE_ATTRIBUTE_NAME;
             pos--;
@@ -331,7 +1060,7 @@ export function parseHtmlLiteral(strings: readonly string[]) {
 
         case State.SELF_CLOSING_START_TAG:
           if (code === Code.GT) {
-            state = State.DATA;
+            state = quitTag(pos);
           } else {
             state = State.BEFORE_ATTRIBUTE_NAME;
             pos--;
@@ -340,7 +1069,7 @@ export function parseHtmlLiteral(strings: readonly string[]) {
 
         case State.BOGUS_COMMENT:
           if (code === Code.GT) {
-            state = State.DATA;
+            state = quitComment(pos);
           }
           break;
 
@@ -348,7 +1077,7 @@ export function parseHtmlLiteral(strings: readonly string[]) {
           if (code === Code.DASH) {
             state = State.COMMENT_START_DASH;
           } else if (code === Code.GT) {
-            state = State.DATA;
+            state = quitComment(pos);
           } else {
             state = State.COMMENT;
             pos--;
@@ -359,7 +1088,7 @@ export function parseHtmlLiteral(strings: readonly string[]) {
           if (code === Code.DASH) {
             state = State.COMMENT_END;
           } else if (code === Code.GT) {
-            state = State.DATA;
+            state = quitComment(pos);
           } else {
             state = State.COMMENT;
             pos--;
@@ -417,7 +1146,7 @@ export function parseHtmlLiteral(strings: readonly string[]) {
 
         case State.COMMENT_END:
           if (code === Code.GT) {
-            state = State.DATA;
+            state = quitComment(pos);
           } else if (code === Code.BANG) {
             state = State.COMMENT_END_BANG;
           } else if (code !== Code.DASH) {
@@ -430,23 +1159,125 @@ export function parseHtmlLiteral(strings: readonly string[]) {
           if (code === Code.DASH) {
             state = State.COMMENT_END_DASH;
           } else if (code === Code.GT) {
-            state = State.DATA;
+            state = quitComment(pos);
           } else {
             state = State.COMMENT;
             pos--;
           }
           break;
 
+        // The "less-than sign" and "end tag" states of raw text elements are
+        // implemented below with a lookahead instead of dedicated states, since
+        // an end tag cannot be interrupted by a binding anyway.
+        case State.RCDATA:
+        case State.RAWTEXT:
+          if (code === Code.LT && quitTextIfEndTag(string, pos)) {
+            pos++;
+          }
+          break;
+
+        case State.SCRIPT_DATA:
+          if (code === Code.LT) {
+            if (quitTextIfEndTag(string, pos)) {
+              pos++;
+            } else if (string.startsWith("!--", pos + 1)) {
+              state = State.SCRIPT_DATA_ESCAPED_DASH_DASH;
+              pos += 3;
+            }
+          }
+          break;
+
+        case State.SCRIPT_DATA_ESCAPED:
+          if (code === Code.DASH) {
+            state = State.SCRIPT_DATA_ESCAPED_DASH;
+          } else if (code === Code.LT) {
+            pos = processEscapedScriptLessThanSign(string, pos);
+          }
+          break;
+
+        case State.SCRIPT_DATA_ESCAPED_DASH:
+          if (code === Code.DASH) {
+            state = State.SCRIPT_DATA_ESCAPED_DASH_DASH;
+          } else {
+            state = State.SCRIPT_DATA_ESCAPED;
+            pos--;
+          }
+          break;
+
+        case State.SCRIPT_DATA_ESCAPED_DASH_DASH:
+          if (code === Code.GT) {
+            state = State.SCRIPT_DATA;
+          } else if (code !== Code.DASH) {
+            state = State.SCRIPT_DATA_ESCAPED;
+            pos--;
+          }
+          break;
+
+        case State.SCRIPT_DATA_DOUBLE_ESCAPED:
+          if (code === Code.DASH) {
+            state = State.SCRIPT_DATA_DOUBLE_ESCAPED_DASH;
+          } else if (code === Code.LT) {
+            pos = processEscapedScriptLessThanSign(string, pos);
+          }
+          break;
+
+        case State.SCRIPT_DATA_DOUBLE_ESCAPED_DASH:
+          if (code === Code.DASH) {
+            state = State.SCRIPT_DATA_DOUBLE_ESCAPED_DASH_DASH;
+          } else {
+            state = State.SCRIPT_DATA_DOUBLE_ESCAPED;
+            pos--;
+          }
+          break;
+
+        case State.SCRIPT_DATA_DOUBLE_ESCAPED_DASH_DASH:
+          if (code === Code.GT) {
+            state = State.SCRIPT_DATA;
+          } else if (code !== Code.DASH) {
+            state = State.SCRIPT_DATA_DOUBLE_ESCAPED;
+            pos--;
+          }
+          break;
+
         case State.MARKUP_DECLARATION_OPEN:
           if (code === Code.DASH && string.charCodeAt(pos + 1) === Code.DASH) {
             state = State.COMMENT_START;
             pos++;
+          } else if (string.startsWith("[CDATA[", pos) && getContentNamespace() !== Namespace.Html) {
+            state = State.CDATA_SECTION;
+            pos += 6;
+            valueStart = textOffset = pos + 1;
+            textStringIndex = stringi;
           } else {
             state = State.BOGUS_COMMENT;
             pos--;
           }
           break;
 
+        case State.CDATA_SECTION:
+          if (code === Code.RBRACKET) {
+            state = State.CDATA_SECTION_BRACKET;
+          }
+          break;
+
+        case State.CDATA_SECTION_BRACKET:
+          if (code === Code.RBRACKET) {
+            state = State.CDATA_SECTION_END;
+          } else {
+            state = State.CDATA_SECTION;
+            pos--;
+          }
+          break;
+
+        case State.CDATA_SECTION_END:
+          if (code === Code.GT) {
+            state = quitCdataSection(string, pos);
+          } else if (code !== Code.RBRACKET) {
+            state = State.CDATA_SECTION;
+            pos--;
+          }
+          break;
+
         default:
           state = State.UNKNOWN;
           break;
@@ -458,23 +1289,72 @@ export function parseHtmlLiteral(strings: readonly string[]) {
       switch (state) {
         case State.DATA:
           // <a>$0
-          parts[stringi] = LiteralPart.Node.instance;
+          parts[stringi] = new LiteralPart.Node(
+            getParentTagName(), getAncestors(), getContentNamespace());
+          quitData(stringi, len);
+          builder?.node(stringi, parts[stringi]);
+          textStringIndex = stringi + 1;
+          textOffset = 0;
+          break;
+
+        case State.TAG_OPEN:
+        case State.END_TAG_OPEN:
+          // <$0
+          if (state === State.TAG_OPEN) {
+            quitData(markupStringIndex, markupOffset);
+          }
+
+          tagNameParts.push("");
+          tagNamePartIndices.push(stringi);
+          isEndTag = state === State.END_TAG_OPEN;
+          state = State.TAG_NAME;
+          tagStart = 0;
+          break;
+
+        case State.TAG_NAME:
+          // <a-$0
+          tagNameParts.push(string.slice(tagStart));
+          tagNamePartIndices.push(stringi);
+          tagStart = 0;
           break;
 
         case State.BEFORE_ATTRIBUTE_NAME:
-          // <a $0
-          parts[stringi] = LiteralPart.Data.instance;
+        case State.AFTER_ATTRIBUTE_NAME:
+          quitValuelessAttribute();
+
+          if (startsAttributeName(strings[stringi + 1])) {
+            // <a $0=
+            parts[stringi] = getAttributeNameLiteralPart("");
+            state = State.ATTRIBUTE_NAME;
+            nameStart = 0;
+            attributeStringIndex = stringi;
+            attributeOffset = len;
+          } else {
+            // <a $0
+            parts[stringi] = new LiteralPart.Data(tagName, getOpenElements(), tagNamespace);
+            state = State.BEFORE_ATTRIBUTE_NAME;
+            builder?.data(stringi, parts[stringi]);
+          }
+          break;
+
+        case State.ATTRIBUTE_NAME:
+          // <a data-$0
+          parts[stringi] = getAttributeNameLiteralPart(string.slice(nameStart));
+          nameStart = 0;
           break;
 
         case State.COMMENT:
           // <!-- $0
-          parts[stringi] = LiteralPart.Comment.instance;
+          parts[stringi] = new LiteralPart.Comment(
+            getParentTagName(), getAncestors(), getContentNamespace());
           break;
 
         case State.BEFORE_ATTRIBUTE_VALUE:
           // <a href=$0
           parts[stringi] = getAttributeLiteralPart(string);
           state = State.ATTRIBUTE_VALUE_UNQUOTED;
+          valueStringIndex = stringi;
+          valueOffset = valueStart;
           break;
 
         case State.ATTRIBUTE_VALUE_UNQUOTED:
@@ -492,185 +1372,3394 @@ export function parseHtmlLiteral(strings: readonly string[]) {
           parts[stringi] = getAttributeLiteralPart(string);
           break;
 
+        case State.RCDATA:
+        case State.RAWTEXT:
+        case State.SCRIPT_DATA:
+        case State.SCRIPT_DATA_ESCAPED:
+        case State.SCRIPT_DATA_DOUBLE_ESCAPED:
+          // <textarea>$0
+          parts[stringi] = getTextLiteralPart(string);
+          break;
+
+        case State.SCRIPT_DATA_ESCAPED_DASH:
+        case State.SCRIPT_DATA_ESCAPED_DASH_DASH:
+          // <script><!-- -$0
+          parts[stringi] = getTextLiteralPart(string);
+          state = State.SCRIPT_DATA_ESCAPED;
+          break;
+
+        case State.SCRIPT_DATA_DOUBLE_ESCAPED_DASH:
+        case State.SCRIPT_DATA_DOUBLE_ESCAPED_DASH_DASH:
+          // <script><!-- <script> -$0
+          parts[stringi] = getTextLiteralPart(string);
+          state = State.SCRIPT_DATA_DOUBLE_ESCAPED;
+          break;
+
+        case State.CDATA_SECTION:
+          // <svg><![CDATA[$0
+          parts[stringi] = getTextLiteralPart(string);
+          break;
+
+        case State.CDATA_SECTION_BRACKET:
+        case State.CDATA_SECTION_END:
+          // <svg><![CDATA[ ]$0
+          parts[stringi] = getTextLiteralPart(string);
+          state = State.CDATA_SECTION;
+          break;
+
         default: {
-          let position = 0;
-          for (let i = 0; i <= stringi; i++) {
-            position += strings[i].length;
-          }
-          throw new Error(`Unexpected binding at position ${position}.`);
+          const error = createUnexpectedBindingError(
+            strings, stringi, state, state === State.BOGUS_COMMENT
+              ? "Unexpected binding in bogus comment"
+              : "Unexpected binding");
+
+          reportError(error);
+          parts[stringi] = new LiteralPart.Invalid(
+            error, getParentTagName(), getAncestors(), getContentNamespace());
+          break;
         }
       }
     }
   }
 
-  Object.freeze(attributeValueParts);
+  if (state === State.TAG_NAME) {
+    // <a-$0
+    const string = strings[strings.length - 1];
+
+    quitTagName(string, string.length);
+  } else if (isTextState(state)) {
+    // <a>text
+    quitData(strings.length - 1, strings[strings.length - 1].length);
+  }
+
+  Object.freeze(valueParts);
+  Object.freeze(staticAttributes);
+  literalStrings.set(parts, strings);
 
-  return parts;
+  if (diagnostics === undefined && !options?.strict) {
+    return parts;
+  }
+
+  const unterminatedConstructError = getUnterminatedConstructError();
+
+  if (unterminatedConstructError !== undefined) {
+    reportError(unterminatedConstructError);
+  }
+
+  return diagnostics === undefined ? parts : { parts, diagnostics };
 }
 
 /**
- * Renders an HTML string literal into a valid HTML string that can be processed
- * by the browser. Templated parts will be replaced by placeholders which can be
- * resolved using a `LiteralNodesFinder`.
+ * Options given to `parseHtmlLiteral`.
  */
-export function renderToHtml(strings: readonly string[], parts: readonly LiteralPart[]) {
-  let htmlString = "";
+export interface ParseHtmlLiteralOptions {
+  /**
+   * Whether to recover from errors instead of throwing them. If `true`, bindings
+   * that cannot be parsed are returned as `Invalid` parts, and a
+   * `ParseHtmlLiteralResult` is returned instead of an array of parts.
+   */
+  readonly recover?: boolean;
 
-  for (let i = 0, len = parts.length; i < len; i++) {
-    htmlString += strings[i];
+  /**
+   * Whether to throw an error if a construct (e.g. a comment, a tag or an
+   * attribute value) is left open at the end of the literal. Such constructs
+   * are always reported as diagnostics if `recover` is `true`.
+   */
+  readonly strict?: boolean;
 
-    const part = parts[i];
+  /**
+   * The namespace of the contents of the element in which the literal will be
+   * inserted, e.g. `Namespace.Svg` to parse an SVG fragment (as if it was in an
+   * `<svg>` element). Defaults to `Namespace.Html`.
+   */
+  readonly namespace?: Namespace;
 
-    if (part.type === LiteralPart.Kind.Attribute) {
-      htmlString += "::";
-    } else if (part.type === LiteralPart.Kind.Data) {
-      htmlString += "::" + i + "=0";
-    } else if (part.type === LiteralPart.Kind.Node) {
-      htmlString += "<!--::" + i + "-->";
-    } else {
-      htmlString += "::comment_" + i;
-    }
-  }
+  /**
+   * The prefixes of the names of attributes which determine their
+   * `LiteralPart.AttributeKind`, the longest matching prefix being used.
+   * Prefixes are only recognized in attributes with bindings in their value,
+   * and whose name has no binding. Defaults to `defaultAttributePrefixes`.
+   */
+  readonly attributePrefixes?: AttributePrefixes;
+}
 
-  return htmlString + strings[strings.length - 1];
+/**
+ * A map from prefixes of attribute names to the kind of the attributes with
+ * that prefix, e.g. `{ ".": LiteralPart.AttributeKind.Property }`.
+ */
+export type AttributePrefixes = Readonly<Record<string, LiteralPart.AttributeKind>>;
+
+/**
+ * The default `ParseHtmlLiteralOptions.attributePrefixes`, i.e. `.` for
+ * properties, `@` for events and `?` for boolean attributes.
+ */
+export const defaultAttributePrefixes: AttributePrefixes = Object.freeze({
+  ".": LiteralPart.AttributeKind.Property,
+  "@": LiteralPart.AttributeKind.Event,
+  "?": LiteralPart.AttributeKind.BooleanAttribute,
+});
+
+/**
+ * The result of `parseHtmlLiteral` when called with `{ recover: true }`.
+ */
+export interface ParseHtmlLiteralResult {
+  /** The parts of the literal, some of which may be `Invalid`. */
+  readonly parts: LiteralPart[];
+  /** The errors encountered in the literal, in order. */
+  readonly diagnostics: readonly HtmlLiteralSyntaxError[];
 }
 
 /**
- * An object used to find the nodes corresponding to the placeholders added by
- * `renderToHtml` when rendering templated parts.
+ * Parses the strings representing a template literal into a tree of elements,
+ * texts, comments and bindings, using the same tokenizer as `parseHtmlLiteral`.
+ *
+ * The tree follows the structure of the literal rather than that of the DOM
+ * which the browser would build from it: open elements are only closed by a
+ * matching end tag (or at the end of the literal), and no element is ever
+ * implied.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const template = parseHtmlTemplate`<a href="/${0}">${1}</a>`;
+ * const [a] = template.children as [TemplateNode.Element];
+ *
+ * expect(template.source).toBe(`<a href="/\${0}">\${1}</a>`);
+ * expect(a.tagName).toBe("a");
+ * expect(a.attributes[0]).toMatchObject({
+ *   value: { strings: ["/", ""], bindings: [0] },
+ * });
+ * expect(a.children[0]).toMatchObject({
+ *   kind: TemplateNode.Kind.Binding, index: 1, start: 16, end: 20,
+ * });
+ * ```
  */
-export class LiteralNodesFinder {
-  private readonly whatToShow: number;
-  private indices?: number[];
+export function parseHtmlTemplate(
+  strings: readonly string[],
+  options?: ParseHtmlLiteralOptions,
+): HtmlTemplate {
+  const builder = new TemplateTreeBuilder(strings),
+        result = tokenize(strings, options, builder);
 
-  public constructor(private readonly parts: readonly LiteralPart[]) {
-    let whatToShow = 0;
+  return Object.freeze({
+    source: builder.source,
+    parts: Array.isArray(result) ? result : result.parts,
+    children: builder.finish(),
+    diagnostics: Array.isArray(result) ? Object.freeze([]) : result.diagnostics,
+  });
+}
 
-    for (let i = 0, len = parts.length; i < len; i++) {
-      const part = parts[i];
+/**
+ * A template literal parsed by `parseHtmlTemplate`.
+ */
+export interface HtmlTemplate {
+  /**
+   * The source of the literal, with bindings written as `${i}`. The `start`
+   * and `end` of nodes are offsets in this string.
+   */
+  readonly source: string;
+  /** The parts of the literal, as returned by `parseHtmlLiteral`. */
+  readonly parts: readonly LiteralPart[];
+  /** The nodes at the root of the literal. */
+  readonly children: readonly TemplateNode[];
+  /**
+   * The errors encountered in the literal, which may only be non-empty if the
+   * literal was parsed with `{ recover: true }`.
+   */
+  readonly diagnostics: readonly HtmlLiteralSyntaxError[];
+}
 
-      if (part.type === LiteralPart.Kind.Comment || part.type === LiteralPart.Kind.Node) {
-        whatToShow |= 128 /* SHOW_COMMENT */;
-      } else {
-        whatToShow |= 1 /* SHOW_ELEMENT */;
-      }
-    }
+/**
+ * A node of a tree returned by `parseHtmlTemplate`.
+ */
+export type TemplateNode =
+  | TemplateNode.Element
+  | TemplateNode.Text
+  | TemplateNode.Comment
+  | TemplateNode.Binding;
 
-    this.whatToShow = whatToShow;
+export namespace TemplateNode {
+  /**
+   * The kind of a `TemplateNode` or of an `Attribute`.
+   */
+  export const enum Kind {
+    /** Kind of `Element` nodes. */
+    Element,
+
+    /** Kind of `Text` nodes. */
+    Text,
+
+    /** Kind of `Comment` nodes. */
+    Comment,
+
+    /** Kind of `Binding` nodes. */
+    Binding,
+
+    /** Kind of `Attribute`s. */
+    Attribute,
   }
 
   /**
-   * Returns the nodes corresponding to the placeholders added to the DOM by
-   * `renderToHtml`:
-   * - For `Node` parts, the placeholder `Comment` node will be returned.
-   * - For `Comment` parts, the `Comment` itself will be returned.
-   * - For `Data` parts, the placeholder `Attr` will be returned.
-   * - For `Attribute` parts, the `Attr` to which it is attached will be
-   *   returned.
+   * Static strings interleaved with bindings, e.g. `/${0}/index.html`.
    */
-  public find(root: Node) {
-    const treeWalker = document.createTreeWalker(root, this.whatToShow, null),
-          walker = new NodeWalker(treeWalker),
-          parts = this.parts,
-          foundNodes = new Array<Node>(parts.length);
+  export interface Interpolation {
+    /** The static strings, e.g. `["/", "/index.html"]`. */
+    readonly strings: readonly string[];
+    /** The indices of the bindings between `strings`, e.g. `[0]`. */
+    readonly bindings: readonly number[];
+  }
 
-    // Since the resulting HTML is always the same, we can guarantee that
-    // calling `treeWalker.nextNode()` a given number of times will always
-    // lead to the same node.
-    // Therefore, the first time we find nodes based on their content, we also
-    // save the number of checks we performed in `walker.skipUntilComment` and
-    // `walker.skipUntilAttribute`. On subsequent calls to `find`, we can just
-    // take the nodes that come after each checking each condition a given
-    // number of times.
-    // The tests ensure that the second, faster pass always returns the same
-    // thing as the first, accurate pass.
-    // By doing this, we avoid building intermediate strings and just have to
-    // check counters.
+  /**
+   * An element, for instance `<a href="/">...</a>`.
+   */
+  export interface Element {
+    readonly kind: Kind.Element;
+    /**
+     * The lowercase name of the element, e.g. `"a"`, or `"my-${}"` if its name
+     * contains bindings (see `LiteralPart.TagName`).
+     */
+    readonly tagName: string;
+    /** The name of the element as written in its start tag. */
+    readonly name: Interpolation;
+    /**
+     * The attributes of the element, as well as the bindings in its start tag
+     * (e.g. `<a ${0}>`), in order of appearance.
+     */
+    readonly attributes: readonly (Attribute | Binding)[];
+    /** The children of the element. */
+    readonly children: readonly TemplateNode[];
+    /** Whether the start tag of the element ends with `/>`. */
+    readonly selfClosing: boolean;
+    /** The namespace of the element, e.g. `Namespace.Svg` in `<svg>`. */
+    readonly namespace: Namespace;
+    /** The offset of the `<` of the start tag of the element. */
+    readonly start: number;
+    /**
+     * The offset following the end tag of the element, or the offset at which
+     * it was implicitly closed if it has no end tag.
+     */
+    readonly end: number;
+  }
 
-    let currentIndex = 0,
-        indices = this.indices;
+  /**
+   * An attribute of an `Element`, for instance `href="/${0}"`.
+   */
+  export interface Attribute {
+    readonly kind: Kind.Attribute;
+    /** The name of the attribute as written in the literal. */
+    readonly name: Interpolation;
+    /** The value of the attribute without its quotes, or `undefined` if it has none. */
+    readonly value: Interpolation | undefined;
+    /** The offset of the first character of the name of the attribute. */
+    readonly start: number;
+    /** The offset following the value (and closing quote) of the attribute. */
+    readonly end: number;
+  }
 
-    if (indices !== undefined) {
-      for (let i = 0, len = indices.length; i < len; i++) {
-        const nextIndex = indices[i],
-              part = parts[i];
+  /**
+   * Text, for instance `Hello, world!`. Only the text of raw text elements (e.g.
+   * `<textarea>`) may contain bindings; elsewhere, bindings are `Binding`
+   * nodes.
+   */
+  export interface Text {
+    readonly kind: Kind.Text;
+    /** The text, with character references left as is. */
+    readonly value: Interpolation;
+    /** The offset of the first character of the text. */
+    readonly start: number;
+    /** The offset following the last character of the text. */
+    readonly end: number;
+  }
 
-        if (part.type === LiteralPart.Kind.Node || part.type === LiteralPart.Kind.Comment) {
-          foundNodes[i] = walker.skipComments(nextIndex - currentIndex)!;
-          currentIndex = nextIndex;
-        } else {
-          foundNodes[i] = walker.skipAttributes(nextIndex - currentIndex)!;
-          currentIndex = nextIndex;
-        }
-      }
+  /**
+   * A comment, for instance `<!-- ${0} -->`.
+   */
+  export interface Comment {
+    readonly kind: Kind.Comment;
+    /** The contents of the comment, e.g. `" ${0} "`. */
+    readonly value: Interpolation;
+    /** The offset of the `<` of the comment. */
+    readonly start: number;
+    /** The offset following the `>` of the comment. */
+    readonly end: number;
+  }
 
-      return foundNodes;
-    }
+  /**
+   * A binding, either between nodes (`<p>${0}</p>`) or in a start tag
+   * (`<p ${0}>`).
+   */
+  export interface Binding {
+    readonly kind: Kind.Binding;
+    /** The index of the binding. */
+    readonly index: number;
+    /** The literal part of the binding, i.e. a `Node` or a `Data` part. */
+    readonly part: LiteralPart;
+    /** The offset of the `$` of the binding. */
+    readonly start: number;
+    /** The offset following the `}` of the binding. */
+    readonly end: number;
+  }
+}
 
-    this.indices = indices = [];
+/**
+ * An error encountered by `parseHtmlLiteral` in a template literal.
+ *
+ * Positions are given in `source`, a reconstruction of the literal where the
+ * binding at index `i` is written `${i}`:
+ *
+ * ```ts
+ * try {
+ *   parseHtmlLiteral`<a href="${0}"${1}>`;
+ * } catch (e) {
+ *   expect(e.bindingIndex).toBe(1);
+ *   expect(e.source).toBe(`<a href="\${0}"\${1}>`);
+ *   expect(e.codeFrame).toBe(`> 1 | <a href="\${0}"\${1}>\n    |               ^`);
+ * }
+ * ```
+ */
+export class HtmlLiteralSyntaxError extends SyntaxError {
+  /** The source of the literal, with bindings written as `${i}`. */
+  public readonly source: string;
+  /** The offset of the error in `source`. */
+  public readonly position: number;
+  /** The line of the error in `source`, starting at 1. */
+  public readonly line: number;
+  /** The column of the error in `source`, starting at 1. */
+  public readonly column: number;
+  /** A snippet of `source` with a caret pointing to the error. */
+  public readonly codeFrame: string;
 
-    for (let i = 0, len = parts.length; i < len; i++) {
-      const part = parts[i];
+  public constructor(
+    /** The description of the error, e.g. `"Unexpected binding"`. */
+    public readonly reason: string,
+    /** The strings of the literal. */
+    public readonly strings: readonly string[],
+    /** The index of the string in which the error is. */
+    public readonly stringIndex: number,
+    /** The offset of the error in `strings[stringIndex]`. */
+    public readonly offset: number,
+    /** The index of the binding at which the error is, or `-1` if it is not at a binding. */
+    public readonly bindingIndex: number,
+    /** The name of the state of the parser at the error, e.g. `"TAG_OPEN"`. */
+    public readonly stateName: string,
+  ) {
+    super();
 
-      if (part.type === LiteralPart.Kind.Node) {
-        const expectedData = "::" + i;
+    const { source, offsets } = reconstructSource(strings),
+          position = offsets[stringIndex] + offset,
+          lines = source.split("\n");
+    let line = 0,
+        column = position;
+
+    while (column > lines[line].length) {
+      column -= lines[line++].length + 1;
+    }
 
-        foundNodes[i] = walker.skipUntilComment((comment) => {
-          currentIndex++;
+    this.name = "HtmlLiteralSyntaxError";
+    this.source = source;
+    this.position = position;
+    this.line = line + 1;
+    this.column = column + 1;
+    this.codeFrame = createCodeFrame(lines, line, column);
 
-          return comment.data === expectedData;
-        })!;
-        indices[i] = --currentIndex;
-      } else if (part.type === LiteralPart.Kind.Comment) {
-        const expectedData = "::comment_" + i;
+    const description = bindingIndex === -1 ? reason : reason + " ${" + bindingIndex + "}";
 
-        foundNodes[i] = walker.skipUntilComment((comment) => {
-          currentIndex++;
+    this.message = `${description} at line ${line + 1}, column ${column + 1}.\n\n${this.codeFrame}`;
 
-          return comment.data.includes(expectedData);
-        })!;
-        indices[i] = --currentIndex;
-      } else if (part.type === LiteralPart.Kind.Data) {
-        const expectedAttributeName = "::" + i;
+    // Required for `instanceof` to work when targeting ES5.
+    Object.setPrototypeOf(this, HtmlLiteralSyntaxError.prototype);
+  }
+}
+
+/**
+ * Renders an HTML string literal into a valid HTML string that can be processed
+ * by the browser. Templated parts will be replaced by placeholders which can be
+ * resolved using a `LiteralNodesFinder` created with the same `markers`.
+ *
+ * The placeholder of the binding at index `i` contains its marker
+ * `${prefix}${nonce}${i}${prefix}`, e.g. `::0::` with `defaultMarkerScheme`.
+ * By default, the prefix of `defaultMarkerScheme` is extended as by
+ * `getUniqueMarkerScheme` so that markers do not occur in the strings from
+ * which `parseHtmlLiteral` returned the parts (e.g. `:::0:::` if the strings
+ * contain `a::before`), and thus cannot be confused with static text.
+ */
+export function renderToHtml(
+  strings: readonly string[],
+  parts: readonly LiteralPart[],
+  options?: RenderToHtmlOptions,
+) {
+  const markers = options?.markers ?? getDefaultMarkerScheme(parts);
+  let htmlString = "";
+
+  for (let i = 0, len = parts.length; i < len; i++) {
+    const string = strings[i],
+          part = parts[i];
 
-        foundNodes[i] = walker.skipUntilAttribute((attr) => {
-          currentIndex++;
+    if (part.type === LiteralPart.Kind.Attribute
+        && part.index === 0
+        && part.kind !== LiteralPart.AttributeKind.Attribute) {
+      // Prefixed names may be lowercased (e.g. `.innerHTML`) or rejected by the
+      // browser, so they are replaced by a neutral name.
+      const nameEnd = getAttributeNameEnd(string, part.valueParts[0]);
 
-          return attr.name === expectedAttributeName;
-        })!;
-        indices[i] = --currentIndex;
-      } else {
-        if (part.index > 0) {
-          foundNodes[i] = foundNodes[i - 1];
-          indices[i] = indices[i - 1];
-          continue;
-        }
+      htmlString += string.slice(0, nameEnd - part.attributeName.length)
+                  + markers.attributeName(getBindingMarker(markers, i))
+                  + string.slice(nameEnd);
+    } else {
+      htmlString += string;
+    }
 
-        const expectedAttributeValue = part.valueParts.join("::");
+    if (part.type === LiteralPart.Kind.Node) {
+      const comment = markers.comment(getBindingMarker(markers, i));
 
-        foundNodes[i] = walker.skipUntilAttribute((attr) => {
-          currentIndex++;
+      htmlString += "<!--" + comment + "-->";
 
-          return attr.value === expectedAttributeValue;
-        })!;
-        indices[i] = --currentIndex;
+      if (options?.nodeRanges) {
+        htmlString += "<!--/" + comment + "-->";
       }
+    } else if (part.type === LiteralPart.Kind.TagName) {
+      htmlString += "tag" + getBindingMarker(markers, part.startTagPartIndex === -1 ? i : part.startTagPartIndex);
+    } else if (part.type === LiteralPart.Kind.Data) {
+      htmlString += markers.attributeName(getBindingMarker(markers, i));
+    } else if (part.type !== LiteralPart.Kind.Invalid) {
+      htmlString += getBindingMarker(markers, i);
     }
-
-    return foundNodes;
   }
 
+  return htmlString + strings[strings.length - 1];
+}
+
+/**
+ * Options given to `renderToHtml`.
+ */
+export interface RenderToHtmlOptions {
   /**
-   * Shorthand for
-   * `find(document.createRange().createContextualFragment(string))`.
+   * The scheme used to render placeholders, which must also be given to the
+   * `LiteralNodesFinder` of the result. Defaults to `defaultMarkerScheme`,
+   * with its prefix extended so that markers do not occur in the strings of
+   * the literal.
    */
-  public findInHtml(string: string) {
-    return this.find(document.createRange().createContextualFragment(string));
-  }
+  readonly markers?: MarkerScheme;
+
+  /**
+   * Whether to render `Node` parts as a pair of comments, e.g.
+   * `<!--::0::--><!--/::0::-->`, rather than a single comment. The nodes of
+   * the binding can then be inserted between these comments, which are kept
+   * when they are replaced (see `LiteralBinding.Node.range`).
+   */
+  readonly nodeRanges?: boolean;
 }
 
-const enum Code {
-  TAB = 9,
+/**
+ * The scheme used by `renderToHtml` to render the placeholders of bindings,
+ * and by `LiteralNodesFinder` to find them.
+ *
+ * The marker of the binding at index `i` is `${prefix}${nonce}${i}${prefix}`.
+ * Markers are used as-is in text, attribute values and comments, and after
+ * `tag` in tag names; they must therefore only contain characters allowed in
+ * the names of elements, e.g. no whitespace, `/` or `>`.
+ */
+export interface MarkerScheme {
+  /** The string surrounding the nonce and index of each marker, e.g. `"::"`. */
+  readonly prefix: string;
+  /** A string following the prefix of each marker, e.g. to make it unguessable. */
+  readonly nonce: string;
+
+  /**
+   * Returns the name of the attribute rendered for the given marker of a `Data`
+   * part or of an attribute with a prefix (e.g. `.value`). Since HTML parsers
+   * lowercase attribute names, the result is matched case-insensitively.
+   */
+  attributeName(marker: string): string;
+  /** Returns the data of the comment rendered for the given marker of a `Node` part. */
+  comment(marker: string): string;
+}
+
+/**
+ * The default `MarkerScheme`, whose markers are of the form `::0::` and are
+ * used as-is in attribute names and comments.
+ */
+export const defaultMarkerScheme: MarkerScheme = Object.freeze<MarkerScheme>({
+  prefix: "::",
+  nonce: "",
+  attributeName: (marker) => marker,
+  comment: (marker) => marker,
+});
+
+/**
+ * A `MarkerScheme` like `defaultMarkerScheme`, but with a random nonce created
+ * when this module is loaded, so that markers cannot be guessed by third
+ * parties. It must be given to both `renderToHtml` and `LiteralNodesFinder`.
+ */
+export const noncedMarkerScheme = createMarkerScheme();
+
+/**
+ * Returns a `MarkerScheme` with the given properties, defaulting to those of
+ * `defaultMarkerScheme` except for the nonce, which defaults to a random string
+ * so that markers cannot be guessed, and therefore injected, by third parties.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const markers = createMarkerScheme({
+ *   prefix: "tpl-",
+ *   attributeName: (marker) => "data-" + marker,
+ * });
+ *
+ * const strings = literal`<div .title=${0}>`;
+ *
+ * renderToHtml(strings, parseHtmlLiteral(strings), { markers });
+ * // => `<div data-tpl-3ki1z7tpl-=tpl-3ki1z7tpl->` (for some random nonce)
+ * ```
+ */
+export function createMarkerScheme(scheme: Partial<MarkerScheme> = {}): MarkerScheme {
+  return Object.freeze<MarkerScheme>({
+    prefix: scheme.prefix ?? defaultMarkerScheme.prefix,
+    nonce: scheme.nonce ?? createNonce(),
+    attributeName: scheme.attributeName ?? defaultMarkerScheme.attributeName,
+    comment: scheme.comment ?? defaultMarkerScheme.comment,
+  });
+}
+
+/**
+ * Returns the given scheme if its markers cannot be confused with the given
+ * strings, or a copy of the scheme whose prefix is extended by repeating its
+ * last character until they cannot, e.g. with the prefix `":::"` instead of
+ * `"::"` if the strings contain `a::before`.
+ */
+export function getUniqueMarkerScheme(strings: readonly string[], scheme = defaultMarkerScheme) {
+  let prefix = scheme.prefix;
+
+  while (strings.some((string) => string.includes(prefix + scheme.nonce))) {
+    prefix += prefix[prefix.length - 1];
+  }
+
+  return prefix === scheme.prefix ? scheme : Object.freeze<MarkerScheme>({ ...scheme, prefix });
+}
+
+/**
+ * The strings from which `parseHtmlLiteral` returned the given parts.
+ */
+const literalStrings = new WeakMap<readonly LiteralPart[], readonly string[]>();
+
+/**
+ * Returns the scheme used by default by `renderToHtml` and `LiteralNodesFinder`
+ * for the given parts, i.e. `defaultMarkerScheme` with a prefix extended so
+ * that markers do not occur in the strings of the parts (if known).
+ */
+function getDefaultMarkerScheme(parts: readonly LiteralPart[]) {
+  const strings = literalStrings.get(parts);
+
+  return strings === undefined ? defaultMarkerScheme : getUniqueMarkerScheme(strings);
+}
+
+/**
+ * A template literal along with its parts and values, which can be rendered by
+ * `renderToString`, including in a `Node` position of another template.
+ */
+export class TemplateResult {
+  public constructor(
+    /** The strings of the literal. */
+    public readonly strings: readonly string[],
+    /** The parts of the literal, as returned by `parseHtmlLiteral`. */
+    public readonly parts: readonly LiteralPart[],
+    /** The values of the bindings of the literal. */
+    public readonly values: readonly unknown[],
+  ) {
+    Object.freeze(this);
+  }
+}
+
+/**
+ * Renders an HTML string literal with the given values into a final HTML
+ * string, without requiring a DOM. Values are escaped according to their
+ * position:
+ * - In `Node` positions, `TemplateResult`s are rendered in place, arrays and
+ *   other iterables (except strings) have each of their items rendered,
+ *   `null`, `undefined` and booleans are not rendered, and other values are
+ *   converted to escaped text.
+ * - In `Attribute` positions, values are converted to strings (`null` and
+ *   `undefined` becoming `""`), and the whole attribute value is sanitized
+ *   (see `RenderToStringOptions.sanitizer`) and rendered in double quotes.
+ * - In `Data` positions, the properties of the given object are sanitized and
+ *   rendered as attributes: `true` renders a valueless attribute, `false`,
+ *   `null` and `undefined` render nothing.
+ * - In `Text` positions, values are escaped so that they cannot close their
+ *   raw text element.
+ * - In `Comment` positions, values are escaped so that they cannot close the
+ *   comment.
+ * - In `TagName` and `AttributeName` positions, values must not contain
+ *   characters that would end the name, otherwise a `TypeError` is thrown.
+ * - `Invalid` parts are not rendered.
+ *
+ * If `hydratable` is `true`, markers are added to the output so that the
+ * nodes of its parts can later be found with `LiteralNodesFinder.hydrate`
+ * (`::` below being the prefix and nonce of `RenderToStringOptions.markers`):
+ * - The nodes rendered by a `Node` binding at index `i` are surrounded by the
+ *   comments `<!--::i-->` and `<!--/::i-->`.
+ * - Elements with bindings in their start tag or contents get an attribute
+ *   `::i` after their name, `i` being the index of their first binding.
+ * - Comments with bindings start with `::i:`, `i` being the index of their
+ *   first binding.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const strings = literal`<a href=${0} ${1}>${2}</a>`,
+ *       parts = parseHtmlLiteral(strings);
+ *
+ * expect(renderToString(strings, parts, ["/?a=1&b=2", { hidden: true }, "<b>"])).toBe(
+ *   `<a href="/?a=1&amp;b=2" hidden>&lt;b&gt;</a>`);
+ * ```
+ */
+export function renderToString(
+  strings: readonly string[],
+  parts: readonly LiteralPart[],
+  values: readonly unknown[],
+  options?: RenderToStringOptions,
+): string {
+  const renderer = createLiteralRenderer(strings, parts, options);
+
+  for (let i = 0, len = parts.length; i < len;) {
+    renderer.renderString(i);
+    i = renderer.renderValue(i, values);
+  }
+
+  renderer.renderString(parts.length);
+
+  return renderer.take();
+}
+
+/**
+ * Returns a renderer of the given literal to HTML, which renders its strings
+ * and the values of its bindings one after the other, as in `renderToString`.
+ * The HTML rendered so far is returned by `take`.
+ */
+function createLiteralRenderer(
+  strings: readonly string[],
+  parts: readonly LiteralPart[],
+  options: RenderToStringOptions | undefined,
+) {
+  const markers = options?.hydratable ? getHydrationTemplate(strings).markers : emptyMarkers,
+        markerStart = getHydrationMarkerStart(options?.markers ?? getDefaultMarkerScheme(parts)),
+        sanitizer = options?.sanitizer ?? defaultSanitizer;
+  let htmlString = "",
+      // The code of the last character of the HTML returned by `take`.
+      lastCharCode = NaN,
+      // The offset at which rendering of the current string starts, which may be
+      // after the value of an attribute rendered with a previous part.
+      start = 0,
+      markerIndex = 0;
+
+  /**
+   * Renders the given slice of a string, along with the markers in it.
+   */
+  function renderSlice(stringIndex: number, from: number, to: number) {
+    for (; markerIndex < markers.length; markerIndex++) {
+      const marker = markers[markerIndex];
+
+      if (marker.stringIndex > stringIndex
+          || (marker.stringIndex === stringIndex && marker.offset > to)) {
+        break;
+      }
+
+      htmlString += strings[stringIndex].slice(from, marker.offset)
+                  + (marker.isComment ? markerStart + marker.index + ":" : " " + markerStart + marker.index);
+      from = marker.offset;
+    }
+
+    htmlString += strings[stringIndex].slice(from, to);
+  }
+
+  return {
+    /**
+     * Renders the static HTML preceding the value of the binding at the given
+     * index, or the end of the literal if the index is the number of parts.
+     */
+    renderString(i: number) {
+      const string = strings[i],
+            part = parts[i] as LiteralPart | undefined;
+
+      if (part?.type === LiteralPart.Kind.Attribute) {
+        // Attribute values are rendered at once in double quotes, replacing
+        // their original quotes (if any), and properties and events are not
+        // rendered.
+        const valueParts = part.valueParts;
+
+        renderSlice(
+          i, start,
+          part.kind === LiteralPart.AttributeKind.Attribute || part.kind === LiteralPart.AttributeKind.Custom
+            ? string.length - valueParts[0].length - getAttributeQuoteLength(string, valueParts[0])
+            : getAttributeNameEnd(string, valueParts[0]) - part.attributeName.length);
+      } else {
+        renderSlice(i, start, string.length);
+        start = 0;
+      }
+    },
+
+    /**
+     * Renders the value of the binding at the given index (along with the
+     * other values of its attribute), returning the index of the next binding
+     * whose value must be rendered.
+     */
+    renderValue(i: number, values: readonly unknown[]) {
+      const part = parts[i];
+
+      if (part.type === LiteralPart.Kind.Attribute) {
+        const string = strings[i],
+              valueParts = part.valueParts,
+              bindingsCount = valueParts.length - 1,
+              quoteLength = getAttributeQuoteLength(string, valueParts[0]),
+              value = interpolateValues(valueParts, values, i);
+
+        if (part.kind === LiteralPart.AttributeKind.Attribute || part.kind === LiteralPart.AttributeKind.Custom) {
+          const sanitizedValue = part.kind === LiteralPart.AttributeKind.Attribute
+            ? sanitizeAttributeValue(
+              part, getElementName(parts, values, i, part.tagName), getAttributeName(parts, values, i, part.name),
+              values, i, value, sanitizer)
+            : value;
+
+          htmlString += '"' + escapeAttributeValue(String(sanitizedValue ?? "")) + '"';
+        } else if (part.kind === LiteralPart.AttributeKind.BooleanAttribute && value) {
+          // Boolean attributes are rendered without a value if their value is
+          // truthy.
+          htmlString += part.name;
+        }
+
+        start = valueParts[bindingsCount].length + quoteLength;
+
+        return i + bindingsCount;
+      }
+
+      const value = values[i];
+
+      switch (part.type) {
+        case LiteralPart.Kind.Node:
+          htmlString += markers === emptyMarkers
+            ? renderNodeToString(value, options)
+            : "<!--" + markerStart + i + "-->"
+              + renderNodeToString(value, options)
+              + "<!--/" + markerStart + i + "-->";
+          break;
+
+        case LiteralPart.Kind.Data:
+          htmlString += renderAttributesToString(
+            value,
+            htmlString === "" ? lastCharCode : htmlString.charCodeAt(htmlString.length - 1),
+            getElementName(parts, values, i, part.tagName),
+            sanitizer);
+          break;
+
+        case LiteralPart.Kind.Text:
+          htmlString += escapeText(String(value ?? ""), part.tagName, part.namespace);
+          break;
+
+        case LiteralPart.Kind.Comment:
+          htmlString += escapeComment(String(value ?? ""));
+          break;
+
+        case LiteralPart.Kind.TagName:
+        case LiteralPart.Kind.AttributeName:
+          htmlString += checkName(String(value ?? ""));
+          break;
+      }
+
+      return i + 1;
+    },
+
+    /**
+     * Returns the HTML rendered since the last call to `take`.
+     */
+    take() {
+      const chunk = htmlString;
+
+      if (chunk !== "") {
+        lastCharCode = chunk.charCodeAt(chunk.length - 1);
+        htmlString = "";
+      }
+
+      return chunk;
+    },
+  };
+}
+
+/**
+ * Options given to `renderToString`.
+ */
+export interface RenderToStringOptions {
+  /**
+   * Whether to add markers to the output so that it can be hydrated using
+   * `LiteralNodesFinder.hydrate`.
+   */
+  readonly hydratable?: boolean;
+  /**
+   * The scheme whose prefix and nonce start the markers added if `hydratable`
+   * is `true`, which must also be given to the `LiteralNodesFinder` hydrating
+   * the output. Defaults to `defaultMarkerScheme`, with its prefix extended so
+   * that markers do not occur in the strings of the literal (as in
+   * `renderToHtml`).
+   */
+  readonly markers?: MarkerScheme;
+  /**
+   * The sanitizer of the values of regular attributes and of the values in
+   * `Data` positions. Defaults to `defaultSanitizer`.
+   */
+  readonly sanitizer?: Sanitizer;
+}
+
+/**
+ * Renders an HTML string literal like `renderToString`, once all of its
+ * asynchronous values have arrived: promises are awaited, async iterables are
+ * rendered as their last value, and values created by `until` are rendered as
+ * their final value. Nested `TemplateResult`s, arrays and lists created by
+ * `repeat` are awaited as well.
+ */
+export async function renderToStringAsync(
+  strings: readonly string[],
+  parts: readonly LiteralPart[],
+  values: readonly unknown[],
+  options?: RenderToStringOptions,
+) {
+  return renderToString(strings, parts, await resolveValues(values), options);
+}
+
+/**
+ * Options given to `renderToStream`.
+ */
+export interface RenderToStreamOptions extends RenderToStringOptions {
+  /**
+   * A signal which stops the rendering when aborted, in which case the stream
+   * throws the reason of the signal.
+   */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * A stream of HTML chunks returned by `renderToStream`, which is both an async
+ * iterator and an async iterable.
+ */
+export interface HtmlStream extends AsyncIterableLike<string> {
+  /**
+   * Renders the next chunk of the stream. Rendering is paused until this method
+   * is called, so that chunks are only rendered as fast as they are consumed.
+   */
+  next(): Promise<IteratorResult<string, undefined>>;
+  /** Stops the rendering of the stream. */
+  return(): Promise<IteratorResult<string, undefined>>;
+  /** Returns the stream itself. */
+  [Symbol.asyncIterator](): AsyncIterator<string>;
+}
+
+/**
+ * Renders an HTML string literal like `renderToStringAsync`, but as a stream of
+ * chunks of HTML rendered in order as they can be: the literal is rendered up
+ * to the first value which has not arrived yet, the chunk preceding that value
+ * being available before it is awaited. The values of `Node` bindings (e.g.
+ * nested `TemplateResult`s, arrays and promises) are streamed in place, and
+ * the values of other bindings are awaited like in `renderToStringAsync`.
+ *
+ * ### Example
+ *
+ * ```ts
+ * for await (const chunk of renderToStream(strings, parts, values, { signal })) {
+ *   response.write(chunk);
+ * }
+ * ```
+ */
+export function renderToStream(
+  strings: readonly string[],
+  parts: readonly LiteralPart[],
+  values: readonly unknown[],
+  options?: RenderToStreamOptions,
+): HtmlStream {
+  const signal = options?.signal,
+        chunks = [] as string[];
+  let rendering: Promise<void> | undefined,
+      finished = false,
+      stopped = false,
+      error: { readonly reason: unknown } | undefined,
+      // Resumes the consumer waiting for a chunk, or the renderer waiting for
+      // its chunk to be consumed.
+      resumeConsumer: (() => void) | undefined,
+      resumeRenderer: (() => void) | undefined;
+
+  function resume() {
+    resumeConsumer?.();
+    resumeRenderer?.();
+    resumeConsumer = resumeRenderer = undefined;
+  }
+
+  function stop(reason?: { readonly reason: unknown }) {
+    if (!stopped) {
+      stopped = true;
+      error = reason;
+      resume();
+    }
+  }
+
+  function checkStopped() {
+    if (stopped) {
+      throw new StreamStoppedSignal();
+    }
+  }
+
+  async function write(chunk: string) {
+    checkStopped();
+
+    if (chunk === "") {
+      return;
+    }
+
+    chunks.push(chunk);
+    resume();
+
+    await new Promise<void>((resolve) => resumeRenderer = resolve);
+
+    checkStopped();
+  }
+
+  function abort() {
+    // `AbortSignal.reason` is not typed by older versions of TypeScript.
+    const { reason } = signal as { readonly reason?: unknown };
+
+    stop({ reason: reason ?? new Error("The rendering was aborted.") });
+  }
+
+  const stream: HtmlStream = {
+    async next() {
+      if (rendering === undefined) {
+        if (signal?.aborted) {
+          abort();
+        } else {
+          signal?.addEventListener("abort", abort);
+        }
+
+        rendering = streamTemplate(strings, parts, values, options, write).then(
+          () => {
+            finished = true;
+            resume();
+          },
+          (reason) => {
+            stop(reason instanceof StreamStoppedSignal ? undefined : { reason });
+          },
+        ).then(() => signal?.removeEventListener("abort", abort));
+      }
+
+      for (;;) {
+        if (chunks.length > 0) {
+          const value = chunks.shift()!;
+
+          resume();
+
+          return { done: false, value };
+        }
+
+        if (error !== undefined) {
+          const { reason } = error;
+
+          error = undefined;
+
+          throw reason;
+        }
+
+        if (finished || stopped) {
+          return { done: true, value: undefined };
+        }
+
+        await new Promise<void>((resolve) => resumeConsumer = resolve);
+      }
+    },
+
+    async return() {
+      stop();
+      chunks.length = 0;
+
+      return { done: true, value: undefined };
+    },
+
+    [Symbol.asyncIterator]: () => stream,
+  };
+
+  return stream;
+}
+
+/**
+ * Renders an HTML string literal like `renderToStream`, but into a
+ * `ReadableStream`, whose chunks are only rendered when they are pulled.
+ */
+export function renderToReadableStream(
+  strings: readonly string[],
+  parts: readonly LiteralPart[],
+  values: readonly unknown[],
+  options?: RenderToStreamOptions,
+) {
+  const stream = renderToStream(strings, parts, values, options);
+
+  return new ReadableStream<string>({
+    async pull(controller) {
+      const result = await stream.next();
+
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+
+    async cancel() {
+      await stream.return();
+    },
+  });
+}
+
+/**
+ * What the value of an attribute or property is interpreted as, as returned by
+ * `getSecurityContext`.
+ */
+export const enum SecurityContext {
+  /** A value which is not interpreted, e.g. `title`. */
+  Generic,
+
+  /** A URL, e.g. `href` or `src`. */
+  Url,
+
+  /** A CSS declaration list, i.e. `style`. */
+  Style,
+
+  /** The code of an inline event handler, e.g. `onclick`. */
+  EventHandler,
+
+  /** HTML, i.e. `srcdoc` of `<iframe>` or the `innerHTML` property. */
+  Html,
+}
+
+/**
+ * Sanitizes the value of an attribute or property with the given name (as
+ * written in the literal) in the given context, returning the value to commit
+ * or throwing a `TypeError` if it must not be committed. `isProperty` is `true`
+ * if the value is assigned to a property of an element, and `false` if it is
+ * rendered or set as an attribute.
+ */
+export type Sanitizer = (value: unknown, context: SecurityContext, name: string, isProperty?: boolean) => unknown;
+
+/**
+ * The sanitizer used by default by `renderToString` and `TemplateInstance`:
+ * - Values of `Url`s that do not use a safe scheme (i.e. `http`, `https`,
+ *   `mailto`, `ftp`, `tel` or `sms`) and are not relative are replaced by
+ *   `"about:invalid#unsafe"`, e.g. `javascript:` URLs.
+ * - Values of `Style`s that contain CSS escapes, `expression()`, bindings or
+ *   unsafe URLs are replaced by `""`.
+ * - Values of `EventHandler`s which are not functions assigned to properties,
+ *   and values of `Html`s which are not empty strings, are rejected, `null`,
+ *   `undefined` and booleans being allowed. Event handler attributes thus only
+ *   accept trusted values.
+ * - Other values are returned as-is.
+ */
+export const defaultSanitizer: Sanitizer = (value, context, name, isProperty = false) => {
+  switch (context) {
+    case SecurityContext.Url:
+      return value == null || isSafeUrl(String(value)) ? value : "about:invalid#unsafe";
+
+    case SecurityContext.Style:
+      return value == null || isSafeStyle(String(value)) ? value : "";
+
+    case SecurityContext.EventHandler:
+    case SecurityContext.Html:
+      if (value == null
+          || typeof value === "boolean"
+          || (context === SecurityContext.EventHandler ? isProperty && typeof value === "function" : value === "")) {
+        return value;
+      }
+
+      throw new TypeError(`Unsafe value for "${name}", which must be wrapped with trusted() if it is safe.`);
+
+    default:
+      return value;
+  }
+};
+
+/**
+ * Returns how the value of the attribute (or property) with the given name of
+ * an element with the given lowercase name is interpreted.
+ *
+ * ### Example
+ *
+ * ```ts
+ * expect(getSecurityContext("a", "href")).toBe(SecurityContext.Url);
+ * expect(getSecurityContext("iframe", "srcdoc")).toBe(SecurityContext.Html);
+ * expect(getSecurityContext("p", "title")).toBe(SecurityContext.Generic);
+ * ```
+ */
+export function getSecurityContext(tagName: string, name: string) {
+  const lowerCaseName = name.toLowerCase();
+
+  if (eventHandlerNames.has(lowerCaseName)) {
+    return SecurityContext.EventHandler;
+  }
+
+  if (lowerCaseName === "style") {
+    return SecurityContext.Style;
+  }
+
+  if (lowerCaseName === "innerhtml"
+      || lowerCaseName === "outerhtml"
+      || (lowerCaseName === "srcdoc" && tagName === "iframe")) {
+    return SecurityContext.Html;
+  }
+
+  if (urlAttributeNames.has(lowerCaseName) || (lowerCaseName === "data" && tagName === "object")) {
+    return SecurityContext.Url;
+  }
+
+  return SecurityContext.Generic;
+}
+
+/**
+ * A value created by `trusted`, which is committed without being sanitized.
+ */
+export class TrustedValue {
+  public constructor(
+    /** The value to commit. */
+    public readonly value: unknown,
+  ) {
+    Object.freeze(this);
+  }
+
+  /**
+   * Returns the value converted to a string, as interpolated in an attribute
+   * with other values.
+   */
+  public toString() {
+    return this.value == null ? "" : String(this.value);
+  }
+}
+
+/**
+ * Returns a value which is committed as the given value by `renderToString` and
+ * `TemplateInstance`, without being given to their sanitizer. An interpolated
+ * attribute is only left unsanitized if all of its values are trusted.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const strings = literal`<a href=${0} onclick="select(${1})">`,
+ *       parts = parseHtmlLiteral(strings);
+ *
+ * expect(renderToString(strings, parts, ["javascript:void 0", trusted(1)])).toBe(
+ *   `<a href="about:invalid#unsafe" onclick="select(1)">`);
+ * ```
+ */
+export function trusted(value: unknown) {
+  return new TrustedValue(value);
+}
+
+/**
+ * Options given to `LiteralNodesFinder`.
+ */
+export interface LiteralNodesFinderOptions {
+  /**
+   * The scheme given to `renderToHtml` when rendering the placeholders, or to
+   * `renderToString` when rendering hydratable output. Defaults to the scheme
+   * used by default by these functions for the parts of the finder.
+   */
+  readonly markers?: MarkerScheme;
+
+  /**
+   * Whether `Node` parts were rendered as pairs of comments by `renderToHtml`,
+   * in which case `findBindings` returns their `LiveNodeRange`.
+   */
+  readonly nodeRanges?: boolean;
+
+  /**
+   * Whether to check that every node returned by `find` is the placeholder of
+   * its part, throwing an error otherwise. This is mostly useful in tests, since
+   * nodes are only checked the first time they are found otherwise.
+   */
+  readonly verify?: boolean;
+}
+
+/**
+ * Options given to `LiteralNodesFinder.findBindings`.
+ */
+export interface FindBindingsOptions {
+  /**
+   * Whether to remove the placeholder attributes of `Data` parts and of the
+   * attributes renamed by `renderToHtml` (e.g. `.value=${0}`), which can then
+   * only be found through the `element` of their binding.
+   */
+  readonly removePlaceholderAttributes?: boolean;
+
+  /**
+   * Whether to reset the values of the other attributes with bindings to their
+   * static parts, e.g. `"a "` for `title="a ${0}"`.
+   */
+  readonly normalizeAttributes?: boolean;
+}
+
+/**
+ * The binding of a part of a literal found by `LiteralNodesFinder.findBindings`.
+ */
+export type LiteralBinding<N = Node> =
+  | LiteralBinding.Data<N>
+  | LiteralBinding.Node<N>
+  | LiteralBinding.Comment<N>
+  | LiteralBinding.Attribute<N>
+  | LiteralBinding.Text<N>
+  | LiteralBinding.TagName<N>
+  | LiteralBinding.AttributeName<N>;
+
+export namespace LiteralBinding {
+  /**
+   * The binding of a `Data` part.
+   */
+  export interface Data<N> {
+    readonly type: LiteralPart.Kind.Data;
+    /** The element on which the data is. */
+    readonly element: N;
+  }
+
+  /**
+   * The binding of a `Node` part.
+   */
+  export interface Node<N> {
+    readonly type: LiteralPart.Kind.Node;
+    /** The parent in which nodes are inserted, which may be the root. */
+    readonly parent: N;
+    /**
+     * The comment before which nodes are inserted, i.e. the placeholder comment
+     * or the end of `range`. It is kept so that adjacent bindings have distinct
+     * positions.
+     */
+    readonly before: N;
+    /**
+     * The range between the start and end comments of the binding, if the
+     * finder was created with `{ nodeRanges: true }`.
+     */
+    readonly range?: LiveNodeRange<N>;
+  }
+
+  /**
+   * The binding of a `Comment` part.
+   */
+  export interface Comment<N> {
+    readonly type: LiteralPart.Kind.Comment;
+    /** The comment whose data contains the placeholder. */
+    readonly comment: N;
+  }
+
+  /**
+   * The binding of an `Attribute` part, shared by all the parts of its value.
+   */
+  export interface Attribute<N> {
+    readonly type: LiteralPart.Kind.Attribute;
+    /** The element on which the attribute is. */
+    readonly element: N;
+    /**
+     * The name of the attribute as returned by
+     * `LiteralNodesFinder.getAttributeName`, e.g. `"title"` or `".innerHTML"`.
+     */
+    readonly attributeName: string;
+    /**
+     * The listener of the attribute if it is an event (e.g. `@click=${0}`) and
+     * its element is an `EventTarget`, i.e. in the DOM.
+     */
+    readonly listener?: EventListenerBinding;
+  }
+
+  /**
+   * The binding of a `Text` part, shared by all the parts of its text.
+   */
+  export interface Text<N> {
+    readonly type: LiteralPart.Kind.Text;
+    /** The text node containing the placeholder. */
+    readonly text: N;
+  }
+
+  /**
+   * The binding of a `TagName` part, shared by all the parts of the names of
+   * the start and end tags of its element.
+   */
+  export interface TagName<N> {
+    readonly type: LiteralPart.Kind.TagName;
+    /** The placeholder element, which must be rebuilt by the caller. */
+    readonly element: N;
+  }
+
+  /**
+   * The binding of an `AttributeName` part, shared by all the parts of its name.
+   */
+  export interface AttributeName<N> {
+    readonly type: LiteralPart.Kind.AttributeName;
+    /** The element on which the attribute is. */
+    readonly element: N;
+    /** The lowercase placeholder name of the attribute, e.g. `"data-::0::"`. */
+    readonly attributeName: string;
+  }
+}
+
+/**
+ * An object used to find the nodes corresponding to the placeholders added by
+ * `renderToHtml` when rendering templated parts.
+ *
+ * Nodes are traversed using a `TreeAdapter`, which defaults to
+ * `domTreeAdapter` if the nodes of the finder are DOM nodes.
+ */
+export class LiteralNodesFinder<N = Node, A = Attr> {
+  /**
+   * The names of the attributes renamed by `renderToHtml` (i.e. attributes
+   * with a prefix such as `.` or `@`), keyed by their placeholder name and
+   * with their case preserved, e.g. `"::0::"` to `".innerHTML"`.
+   */
+  public readonly attributeNames: ReadonlyMap<string, string>;
+
+  /** The adapter used to traverse trees. */
+  public readonly adapter: TreeAdapter<N, A>;
+
+  private readonly markers: MarkerScheme;
+  private readonly nodeRanges: boolean;
+  private readonly verify: boolean;
+  private readonly whatToShow: number;
+  private indices?: number[];
+
+  public constructor(
+    private readonly parts: readonly LiteralPart[],
+    ...[adapter, options]: TreeAdapterArguments<N, A, [options?: LiteralNodesFinderOptions]>
+  ) {
+    const attributeNames = new Map<string, string>(),
+          markers = options?.markers ?? getDefaultMarkerScheme(parts);
+    let whatToShow = 0;
+
+    for (let i = 0, len = parts.length; i < len; i++) {
+      const part = parts[i];
+
+      if (part.type === LiteralPart.Kind.Attribute
+          && part.index === 0
+          && part.kind !== LiteralPart.AttributeKind.Attribute) {
+        attributeNames.set(markers.attributeName(getBindingMarker(markers, i)).toLowerCase(), part.attributeName);
+      }
+
+      if (part.type === LiteralPart.Kind.Comment || part.type === LiteralPart.Kind.Node) {
+        whatToShow |= 128 /* SHOW_COMMENT */;
+      } else if (part.type === LiteralPart.Kind.Text) {
+        whatToShow |= 4 /* SHOW_TEXT */;
+      } else if (part.type !== LiteralPart.Kind.Invalid) {
+        whatToShow |= 1 /* SHOW_ELEMENT */;
+      }
+    }
+
+    this.attributeNames = attributeNames;
+    this.adapter = adapter ?? domTreeAdapter as unknown as TreeAdapter<N, A>;
+    this.markers = markers;
+    this.nodeRanges = options?.nodeRanges ?? false;
+    this.verify = options?.verify ?? false;
+    this.whatToShow = whatToShow;
+  }
+
+  /**
+   * Returns the name of the given attribute as written in the literal, i.e.
+   * with its case preserved if it was renamed by `renderToHtml`. Since HTML
+   * parsers lowercase attribute names, the names of other attributes are
+   * returned as found.
+   *
+   * ### Example
+   *
+   * ```ts
+   * const strings = literal`<div .innerHTML=${0}>`,
+   *       parts = parseHtmlLiteral(strings),
+   *       finder = new LiteralNodesFinder(parts),
+   *       nodes = finder.findInHtml(renderToHtml(strings, parts));
+   *
+   * expect(finder.getAttributeName(nodes[0] as Attr)).toBe(".innerHTML");
+   * ```
+   */
+  public getAttributeName(attribute: A) {
+    const name = this.adapter.getAttributeName(attribute);
+
+    return this.attributeNames.get(name) ?? name;
+  }
+
+  /**
+   * Returns the nodes corresponding to the placeholders added to the DOM by
+   * `renderToHtml`:
+   * - For `Node` parts, the placeholder `Comment` node will be returned.
+   * - For `Comment` parts, the `Comment` itself will be returned.
+   * - For `Data` parts, the placeholder `Attr` will be returned.
+   * - For `Attribute` parts, the `Attr` to which it is attached will be
+   *   returned.
+   * - For `Text` parts, the `Text` node in which it is will be returned.
+   * - For `TagName` parts, the placeholder `Element` will be returned. Since
+   *   its name is a placeholder, it must be rebuilt by the caller.
+   * - For `AttributeName` parts, the placeholder `Attr` will be returned.
+   * - For `Invalid` parts, nothing (`undefined`) will be returned.
+   */
+  public find(root: N) {
+    const walker = new NodeWalker(this.adapter, root, this.whatToShow),
+          parts = this.parts,
+          foundNodes = new Array<N | A>(parts.length);
+
+    // Since the resulting HTML is always the same, we can guarantee that
+    // calling `treeWalker.nextNode()` a given number of times will always
+    // lead to the same node.
+    // Therefore, the first time we find nodes based on their content, we also
+    // save the number of checks we performed in `walker.skipUntilComment` and
+    // `walker.skipUntilAttribute`. On subsequent calls to `find`, we can just
+    // take the nodes that come after each checking each condition a given
+    // number of times.
+    // The tests ensure that the second, faster pass always returns the same
+    // thing as the first, accurate pass.
+    // By doing this, we avoid building intermediate strings and just have to
+    // check counters.
+
+    let currentIndex = 0,
+        indices = this.indices;
+
+    if (indices !== undefined) {
+      for (let i = 0, len = indices.length; i < len; i++) {
+        const nextIndex = indices[i],
+              part = parts[i];
+
+        if (part.type === LiteralPart.Kind.Invalid) {
+          continue;
+        }
+
+        if (part.type === LiteralPart.Kind.Node || part.type === LiteralPart.Kind.Comment) {
+          foundNodes[i] = walker.skipComments(nextIndex - currentIndex)!;
+          currentIndex = nextIndex;
+        } else if (part.type === LiteralPart.Kind.Text) {
+          foundNodes[i] = walker.skipTexts(nextIndex - currentIndex)!;
+          currentIndex = nextIndex;
+        } else if (part.type === LiteralPart.Kind.TagName) {
+          if (part.startTagPartIndex !== -1) {
+            foundNodes[i] = foundNodes[part.startTagPartIndex];
+            continue;
+          }
+
+          foundNodes[i] = walker.skipElements(nextIndex - currentIndex)!;
+          currentIndex = nextIndex;
+        } else {
+          foundNodes[i] = walker.skipAttributes(nextIndex - currentIndex)!;
+          currentIndex = nextIndex;
+        }
+      }
+
+      return this.verify ? this.verifyFoundNodes(foundNodes) : foundNodes;
+    }
+
+    this.indices = indices = [];
+
+    for (let i = 0, len = parts.length; i < len; i++) {
+      const part = parts[i],
+            isPlaceholder = (node: N | A) => {
+              currentIndex++;
+
+              return this.isPlaceholder(i, node);
+            };
+
+      if (part.type === LiteralPart.Kind.Invalid) {
+        indices[i] = currentIndex;
+        continue;
+      }
+
+      if (part.type === LiteralPart.Kind.TagName && part.startTagPartIndex !== -1) {
+        foundNodes[i] = foundNodes[part.startTagPartIndex];
+        indices[i] = currentIndex;
+        continue;
+      }
+
+      if ((part.type === LiteralPart.Kind.Attribute
+           || part.type === LiteralPart.Kind.Text
+           || part.type === LiteralPart.Kind.TagName
+           || part.type === LiteralPart.Kind.AttributeName) && part.index > 0) {
+        foundNodes[i] = foundNodes[i - 1];
+        indices[i] = indices[i - 1];
+        continue;
+      }
+
+      if (part.type === LiteralPart.Kind.Node || part.type === LiteralPart.Kind.Comment) {
+        foundNodes[i] = walker.skipUntilComment(isPlaceholder)!;
+      } else if (part.type === LiteralPart.Kind.Text) {
+        foundNodes[i] = walker.skipUntilText(isPlaceholder)!;
+      } else if (part.type === LiteralPart.Kind.TagName) {
+        foundNodes[i] = walker.skipUntilElement(isPlaceholder)!;
+      } else {
+        foundNodes[i] = walker.skipUntilAttribute(isPlaceholder)!;
+      }
+
+      indices[i] = --currentIndex;
+    }
+
+    return this.verify ? this.verifyFoundNodes(foundNodes) : foundNodes;
+  }
+
+  /**
+   * Shorthand for `find(adapter.parseFragment(string, namespace))`, where the
+   * namespace is that of the element in which the string is parsed, e.g.
+   * `Namespace.Svg` for a literal parsed with `{ namespace: Namespace.Svg }`.
+   */
+  public findInHtml(string: string, namespace?: Namespace) {
+    return this.find(this.adapter.parseFragment(string, namespace));
+  }
+
+  /**
+   * Returns the bindings of the parts of the literal in the given tree, i.e.
+   * the nodes found by `find` along with the element of each attribute and the
+   * parent of each `Node` placeholder. Parts of a same value or name share the
+   * same binding, and `Invalid` parts have none. If the finder has
+   * `nodeRanges`, an error is thrown if a `Node` placeholder is not followed by
+   * its end comment.
+   *
+   * Attributes are modified as configured by the given options, which requires
+   * the `removeAttribute` and `setAttributeValue` methods of the adapter.
+   */
+  public findBindings(root: N, options?: FindBindingsOptions) {
+    const adapter = this.adapter,
+          parts = this.parts,
+          nodes = this.find(root),
+          bindings = new Array<LiteralBinding<N> | undefined>(parts.length),
+          removePlaceholderAttributes = options?.removePlaceholderAttributes ?? false,
+          normalizeAttributes = options?.normalizeAttributes ?? false;
+
+    if ((removePlaceholderAttributes && adapter.removeAttribute === undefined)
+        || (normalizeAttributes && adapter.setAttributeValue === undefined)) {
+      throw new TypeError("The adapter of the finder cannot modify attributes.");
+    }
+
+    for (let i = 0, len = parts.length; i < len; i++) {
+      const part = parts[i],
+            node = nodes[i];
+
+      if ((part.type === LiteralPart.Kind.Attribute
+           || part.type === LiteralPart.Kind.Text
+           || part.type === LiteralPart.Kind.TagName
+           || part.type === LiteralPart.Kind.AttributeName) && part.index > 0) {
+        bindings[i] = bindings[i - 1];
+        continue;
+      }
+
+      switch (part.type) {
+        case LiteralPart.Kind.Node:
+          if (this.nodeRanges) {
+            const end = getNextSibling(adapter, node as N);
+
+            if (end === undefined
+                || adapter.getNodeType(end) !== 8 /* COMMENT_NODE */
+                || adapter.getData(end) !== "/" + this.markers.comment(getBindingMarker(this.markers, i))) {
+              throw new Error(`Missing end comment of the range of binding ${i}.`);
+            }
+
+            // TypeScript 4.1 does not resolve the arguments of a range of `N`s.
+            const range = new LiveNodeRange(node as N, end, ...[adapter] as TreeAdapterArguments<N, unknown>);
+
+            bindings[i] = { type: part.type, parent: range.parent, before: range.end, range };
+          } else {
+            bindings[i] = {
+              type: part.type,
+              parent: adapter.getParentNode(node as N)!,
+              before: node as N,
+            };
+          }
+          break;
+
+        case LiteralPart.Kind.Comment:
+          bindings[i] = { type: part.type, comment: node as N };
+          break;
+
+        case LiteralPart.Kind.Text:
+          bindings[i] = { type: part.type, text: node as N };
+          break;
+
+        case LiteralPart.Kind.TagName:
+          bindings[i] = part.startTagPartIndex === -1
+            ? { type: part.type, element: node as N }
+            : bindings[part.startTagPartIndex];
+          break;
+
+        case LiteralPart.Kind.Data:
+          bindings[i] = { type: part.type, element: adapter.getOwnerElement(node as A)! };
+
+          if (removePlaceholderAttributes) {
+            adapter.removeAttribute!(node as A);
+          }
+          break;
+
+        case LiteralPart.Kind.Attribute: {
+          const element = adapter.getOwnerElement(node as A)!;
+
+          bindings[i] = {
+            type: part.type,
+            element,
+            attributeName: this.getAttributeName(node as A),
+            listener: part.kind === LiteralPart.AttributeKind.Event && isEventTarget(element)
+              ? new EventListenerBinding(element, part.name)
+              : undefined,
+          };
+
+          if (part.kind !== LiteralPart.AttributeKind.Attribute) {
+            if (removePlaceholderAttributes) {
+              adapter.removeAttribute!(node as A);
+            }
+          } else if (normalizeAttributes) {
+            adapter.setAttributeValue!(node as A, part.valueParts.join(""));
+          }
+          break;
+        }
+
+        case LiteralPart.Kind.AttributeName:
+          bindings[i] = {
+            type: part.type,
+            element: adapter.getOwnerElement(node as A)!,
+            attributeName: adapter.getAttributeName(node as A),
+          };
+          break;
+      }
+    }
+
+    return bindings;
+  }
+
+  /**
+   * Returns whether the given node or attribute is the placeholder rendered by
+   * `renderToHtml` for the part at the given index.
+   */
+  private isPlaceholder(index: number, node: N | A) {
+    const adapter = this.adapter,
+          markers = this.markers,
+          part = this.parts[index];
+
+    switch (part.type) {
+      case LiteralPart.Kind.Node:
+        return adapter.getNodeType(node as N) === 8 /* COMMENT_NODE */
+            && adapter.getData(node as N) === markers.comment(getBindingMarker(markers, index));
+
+      case LiteralPart.Kind.Comment:
+        return adapter.getNodeType(node as N) === 8 /* COMMENT_NODE */
+            && adapter.getData(node as N).includes(getBindingMarker(markers, index));
+
+      case LiteralPart.Kind.Text: {
+        if (adapter.getNodeType(node as N) !== 3 /* TEXT_NODE */) {
+          return false;
+        }
+
+        if (part.namespace === Namespace.Html && getContentState(part.tagName) === State.RCDATA) {
+          // Character references are decoded in `<textarea>` and `<title>`, so
+          // their text is only checked to contain the markers of its bindings.
+          const data = adapter.getData(node as N),
+                firstIndex = index - part.index;
+
+          for (let i = 0, len = part.valueParts.length - 1; i < len; i++) {
+            if (!data.includes(getBindingMarker(markers, firstIndex + i))) {
+              return false;
+            }
+          }
+
+          return true;
+        }
+
+        return adapter.getData(node as N) === joinPlaceholderParts(part.valueParts, "", markers, index - part.index);
+      }
+
+      case LiteralPart.Kind.TagName: {
+        const firstIndex = part.startTagPartIndex === -1
+          ? index - part.index
+          : part.startTagPartIndex - part.index;
+
+        return adapter.getNodeType(node as N) === 1 /* ELEMENT_NODE */
+            && adapter.getLocalName(node as N)
+               === joinPlaceholderParts(part.nameParts, "tag", markers, firstIndex).toLowerCase();
+      }
+
+      case LiteralPart.Kind.AttributeName:
+        return adapter.getAttributeName(node as A)
+            === joinPlaceholderParts(part.nameParts, "", markers, index - part.index).toLowerCase();
+
+      case LiteralPart.Kind.Data:
+        return adapter.getAttributeName(node as A)
+            === markers.attributeName(getBindingMarker(markers, index)).toLowerCase();
+
+      case LiteralPart.Kind.Attribute:
+        return adapter.getAttributeValue(node as A)
+            === joinPlaceholderParts(part.valueParts, "", markers, index - part.index);
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Throws an error if one of the given found nodes is not the placeholder of
+   * its part, and returns them otherwise.
+   */
+  private verifyFoundNodes(foundNodes: (N | A)[]) {
+    const parts = this.parts;
+
+    for (let i = 0, len = parts.length; i < len; i++) {
+      const node = foundNodes[i];
+
+      if (parts[i].type === LiteralPart.Kind.Invalid
+          ? node !== undefined
+          : node === undefined || !this.isPlaceholder(i, node)) {
+        throw new Error(`Node found for binding ${i} does not match its placeholder.`);
+      }
+    }
+
+    return foundNodes;
+  }
+
+  /**
+   * Returns the nodes corresponding to the parts of a literal rendered by
+   * `renderToString` with `{ hydratable: true }`, given the node in which the
+   * literal was rendered, or the range of the `Node` binding in which it was
+   * rendered if it was nested in another literal:
+   * - For `Node` parts, the `NodeRange` delimited by the markers of the binding
+   *   will be returned.
+   * - For `Comment` parts, the `Comment` itself will be returned.
+   * - For `Attribute` parts, the `Attr` will be returned if the name of the
+   *   attribute is static (and it is rendered by `renderToString`, i.e. it is
+   *   not a property, event or boolean attribute), and the `Element` on which it
+   *   is otherwise.
+   * - For `Data`, `TagName` and `AttributeName` parts, the `Element` on which
+   *   they are will be returned.
+   * - For `Text` parts, the `Text` node in which it is will be returned, or the
+   *   element in which it is if the text is empty.
+   * - For `Invalid` parts, nothing (`undefined`) will be returned.
+   *
+   * An `HtmlHydrationError` is thrown if the markers or the elements found do
+   * not match the literal. If the parts of the finder were returned by
+   * `parseHtmlLiteral`, the static elements of the literal (except those
+   * implied by HTML parsers, e.g. `<tbody>`) and their static text are checked
+   * as well.
+   */
+  public hydrate(root: N | NodeRange<N>) {
+    const adapter = this.adapter,
+          range = (root as NodeRange<N>).end === undefined ? undefined : root as NodeRange<N>,
+          walker = range === undefined
+            ? new NodeWalker(adapter, root as N, 129 /* SHOW_ELEMENT | SHOW_COMMENT */)
+            : NodeWalker.at(adapter, range.start, 129 /* SHOW_ELEMENT | SHOW_COMMENT */),
+          parts = this.parts,
+          foundNodes = new Array<N | A | NodeRange<N> | undefined>(parts.length),
+          strings = literalStrings.get(parts),
+          // The elements expected in the tree, if the strings of the literal
+          // are known.
+          elements = strings === undefined ? undefined : getHydrationTemplate(strings).elements,
+          markerStart = getHydrationMarkerStart(this.markers),
+          lastIndex = parts.length - 1;
+    let elementIndex = 0;
+
+    /**
+     * Checks that the given element is the next element of the literal, and
+     * that it has the same static text, reporting errors at the given binding.
+     */
+    function checkElement(node: N, bindingIndex: number) {
+      const localName = adapter.getLocalName(node).toLowerCase(),
+            element = elements![elementIndex];
+
+      if (element !== undefined && (element.tagName === localName || element.tagName.includes("${}"))) {
+        elementIndex++;
+
+        if (!hasStaticText(adapter, node, element)) {
+          throw new HtmlHydrationError(`Unexpected text in <${localName}>`, bindingIndex);
+        }
+      } else if (!impliedElementNames.has(localName)) {
+        throw new HtmlHydrationError(
+          element === undefined
+            ? `Unexpected element <${localName}>`
+            : `Expected element <${element.tagName}>, found <${localName}>`,
+          bindingIndex,
+        );
+      }
+    }
+
+    function nextMarker(bindingIndex: number) {
+      for (let node = walker.nextNode(); node !== undefined; node = walker.nextNode()) {
+        if (node === range?.end) {
+          break;
+        }
+
+        if (elements !== undefined && adapter.getNodeType(node) === 1 /* ELEMENT_NODE */) {
+          checkElement(node, bindingIndex);
+        }
+
+        const index = getHydrationMarkerIndex(adapter, node, markerStart);
+
+        if (index !== -1) {
+          return { node, index };
+        }
+      }
+
+      return undefined;
+    }
+
+    let marker = nextMarker(0),
+        current: N | undefined;
+
+    for (let i = 0, len = parts.length; i < len; i++) {
+      const part = parts[i];
+
+      if (part.type === LiteralPart.Kind.Invalid) {
+        continue;
+      }
+
+      if (part.type === LiteralPart.Kind.TagName && part.startTagPartIndex !== -1) {
+        foundNodes[i] = foundNodes[part.startTagPartIndex];
+        continue;
+      }
+
+      if (marker !== undefined && marker.index === i) {
+        current = marker.node;
+
+        if (part.type === LiteralPart.Kind.Node) {
+          const end = walker.skipUntilSibling(hydrationRangeEndFinder(adapter, markerStart));
+
+          if (end === undefined || adapter.getData(end) !== "/" + markerStart + i) {
+            throw new HtmlHydrationError("Missing end marker", i);
+          }
+
+          foundNodes[i] = Object.freeze({ start: current, end });
+        }
+
+        marker = nextMarker(Math.min(i + 1, lastIndex));
+
+        if (part.type === LiteralPart.Kind.Node) {
+          continue;
+        }
+      } else if (part.type === LiteralPart.Kind.Node || current === undefined) {
+        throw new HtmlHydrationError("Missing marker", i);
+      }
+
+      const nodeType = adapter.getNodeType(current);
+
+      if (part.type === LiteralPart.Kind.Comment) {
+        if (nodeType !== 8 /* COMMENT_NODE */) {
+          throw new HtmlHydrationError("Expected a comment", i);
+        }
+
+        foundNodes[i] = current;
+        continue;
+      }
+
+      if (nodeType !== 1 /* ELEMENT_NODE */) {
+        throw new HtmlHydrationError("Expected an element", i);
+      }
+
+      const localName = adapter.getLocalName(current);
+
+      if (!part.tagName.includes("${}") && localName !== part.tagName) {
+        throw new HtmlHydrationError(`Expected element <${part.tagName}>, found <${localName}>`, i);
+      }
+
+      if (part.type === LiteralPart.Kind.Attribute
+          && (part.kind === LiteralPart.AttributeKind.Attribute || part.kind === LiteralPart.AttributeKind.Custom)
+          && !part.attributeName.includes("${}")) {
+        const attr = findAttribute(adapter, current, part.attributeName.toLowerCase());
+
+        if (attr === undefined) {
+          throw new HtmlHydrationError(`Missing attribute "${part.attributeName}"`, i);
+        }
+
+        foundNodes[i] = attr;
+      } else if (part.type === LiteralPart.Kind.Text) {
+        const text = adapter.getChildNodes(current)[0];
+
+        if (text !== undefined && adapter.getNodeType(text) === 3 /* TEXT_NODE */) {
+          if (!hasStaticTextParts(adapter.getData(text), part)) {
+            throw new HtmlHydrationError("Unexpected text", i);
+          }
+
+          foundNodes[i] = text;
+        } else {
+          foundNodes[i] = current;
+        }
+      } else {
+        foundNodes[i] = current;
+      }
+    }
+
+    if (marker !== undefined) {
+      throw new HtmlHydrationError("Unexpected marker", marker.index);
+    }
+
+    if (elements !== undefined && elementIndex < elements.length) {
+      throw new HtmlHydrationError(`Missing element <${elements[elementIndex].tagName}>`, lastIndex);
+    }
+
+    return foundNodes;
+  }
+}
+
+/**
+ * The nodes rendered by a `Node` binding in hydratable output, delimited by two
+ * marker comments.
+ */
+export interface NodeRange<N = Comment> {
+  /** The comment preceding the nodes, i.e. `<!--::i-->`. */
+  readonly start: N;
+  /** The comment following the nodes, i.e. `<!--/::i-->`. */
+  readonly end: N;
+}
+
+/**
+ * Detaches everything attached to the given bindings returned by
+ * `LiteralNodesFinder.findBindings`, i.e. removes their event listeners.
+ */
+export function disposeBindings(bindings: readonly (LiteralBinding<unknown> | undefined)[]) {
+  for (let i = 0, len = bindings.length; i < len; i++) {
+    const binding = bindings[i];
+
+    if (binding?.type === LiteralPart.Kind.Attribute) {
+      binding.listener?.dispose();
+    }
+  }
+}
+
+/**
+ * The options of an `EventListenerBinding`, given as suffixes of the name of
+ * its event, e.g. `@click.capture.once=${0}`.
+ */
+export interface EventListenerBindingOptions {
+  readonly capture: boolean;
+  readonly once: boolean;
+  readonly passive: boolean;
+}
+
+/**
+ * An event listener bound by an `Attribute` part with the `Event` kind, e.g.
+ * `@click=${0}`. The listener is added to its target once, and calls the last
+ * handler given to `update`, so that changing the handler does not add a new
+ * listener.
+ *
+ * The name of the event may end with the `.capture`, `.once` and `.passive`
+ * suffixes, which set the corresponding options of the listener.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const listener = new EventListenerBinding(button, "click.once");
+ *
+ * listener.update(() => console.log("Clicked"));
+ * listener.update(() => console.log("Clicked!"));  // Does not add a listener.
+ * listener.dispose();
+ * ```
+ */
+export class EventListenerBinding {
+  /** The type of the event, e.g. `"click"` for `@click.once=${0}`. */
+  public readonly type: string;
+  /** The options of the listener. */
+  public readonly options: EventListenerBindingOptions;
+
+  private handler: EventListenerOrEventListenerObject | null = null;
+  private added = false;
+
+  public constructor(
+    /** The target of the listener, i.e. the element of the attribute. */
+    public readonly target: EventTarget,
+    /** The name of the event with its suffixes, e.g. `"click.once"`. */
+    name: string,
+  ) {
+    const options = { capture: false, once: false, passive: false };
+    let type = name,
+        dot = type.lastIndexOf(".");
+
+    while (dot !== -1 && Object.prototype.hasOwnProperty.call(options, type.slice(dot + 1))) {
+      options[type.slice(dot + 1) as keyof typeof options] = true;
+      type = type.slice(0, dot);
+      dot = type.lastIndexOf(".");
+    }
+
+    this.type = type;
+    this.options = Object.freeze(options);
+  }
+
+  /**
+   * Sets the handler called by the listener, adding the listener to its target
+   * if needed. If the handler is `null` or `undefined`, the listener is
+   * removed. Other handlers must be functions or `EventListener` objects,
+   * otherwise a `TypeError` is thrown.
+   */
+  public update(handler: unknown) {
+    if (handler == null) {
+      this.dispose();
+
+      return;
+    }
+
+    if (typeof handler !== "function"
+        && typeof (handler as Partial<EventListenerObject>).handleEvent !== "function") {
+      throw new TypeError(`The handler of the "${this.type}" event must be a function or an EventListener.`);
+    }
+
+    this.handler = handler as EventListenerOrEventListenerObject;
+
+    if (!this.added) {
+      this.target.addEventListener(this.type, this, this.options);
+      this.added = true;
+    }
+  }
+
+  /**
+   * Removes the listener from its target.
+   */
+  public dispose() {
+    if (this.added) {
+      this.target.removeEventListener(this.type, this, this.options);
+      this.added = false;
+    }
+
+    this.handler = null;
+  }
+
+  /**
+   * Calls the handler of the listener with the given event.
+   */
+  public handleEvent(event: Event) {
+    const handler = this.handler;
+
+    if (this.options.once) {
+      // The listener was removed by the target, and is added again by the next
+      // update.
+      this.added = false;
+    }
+
+    if (typeof handler === "function") {
+      handler.call(this.target, event);
+    } else if (handler !== null) {
+      handler.handleEvent(event);
+    }
+  }
+}
+
+/**
+ * The nodes of a `Node` binding rendered by `renderToHtml` with
+ * `{ nodeRanges: true }`, delimited by two comments which are kept when the
+ * nodes between them are updated.
+ *
+ * Nodes are modified using the `insertBefore` and `removeChild` methods of the
+ * `TreeAdapter` of the range.
+ */
+export class LiveNodeRange<N = Node> implements NodeRange<N> {
+  /** The adapter used to traverse and modify the tree of the range. */
+  public readonly adapter: TreeAdapter<N, unknown>;
+
+  public constructor(
+    /** The comment preceding the nodes, i.e. `<!--::i::-->`. */
+    public readonly start: N,
+    /** The comment following the nodes, i.e. `<!--/::i::-->`. */
+    public readonly end: N,
+    ...[adapter]: TreeAdapterArguments<N, unknown>
+  ) {
+    this.adapter = adapter ?? domTreeAdapter as unknown as TreeAdapter<N, unknown>;
+
+    Object.freeze(this);
+  }
+
+  /**
+   * The parent of the comments of the range.
+   */
+  public get parent() {
+    return this.adapter.getParentNode(this.start)!;
+  }
+
+  /**
+   * The nodes between the comments of the range.
+   */
+  public get nodes() {
+    const children = this.adapter.getChildNodes(this.parent),
+          nodes = [] as N[];
+
+    for (let i = Array.prototype.indexOf.call(children, this.start) + 1, len = children.length; i < len; i++) {
+      if (children[i] === this.end) {
+        return nodes;
+      }
+
+      nodes.push(children[i]);
+    }
+
+    throw new Error("The end of the range is not a sibling following its start.");
+  }
+
+  /**
+   * Removes all the nodes between the comments of the range.
+   */
+  public clear() {
+    const adapter = getMutableTreeAdapter(this.adapter),
+          parent = this.parent,
+          nodes = this.nodes;
+
+    for (let i = 0, len = nodes.length; i < len; i++) {
+      adapter.removeChild(parent, nodes[i]);
+    }
+  }
+
+  /**
+   * Inserts the given node in the range, before the given node of the range or
+   * at its end by default.
+   */
+  public insert(node: N, before = this.end) {
+    getMutableTreeAdapter(this.adapter).insertBefore(this.parent, node, before);
+  }
+
+  /**
+   * Replaces the nodes of the range by the given nodes.
+   */
+  public replace(...nodes: N[]) {
+    this.clear();
+
+    for (let i = 0, len = nodes.length; i < len; i++) {
+      this.insert(nodes[i]);
+    }
+  }
+}
+
+/**
+ * An error thrown by `LiteralNodesFinder.hydrate` when the DOM does not match
+ * the literal.
+ */
+export class HtmlHydrationError extends Error {
+  public constructor(
+    /** The description of the error, e.g. `"Missing marker"`. */
+    public readonly reason: string,
+    /** The index of the binding at which the error is. */
+    public readonly bindingIndex: number,
+  ) {
+    super(`${reason} for binding \${${bindingIndex}}.`);
+
+    this.name = "HtmlHydrationError";
+
+    // Required for `instanceof` to work when targeting ES5.
+    Object.setPrototypeOf(this, HtmlHydrationError.prototype);
+  }
+}
+
+/**
+ * An object used by `LiteralNodesFinder` to traverse trees of nodes `N` with
+ * attributes `A`, which need not be DOM trees.
+ *
+ * Node types are those of the DOM, i.e. `1` for elements, `3` for text nodes,
+ * `8` for comments and `11` for fragments.
+ */
+export interface TreeAdapter<N, A> {
+  /** Returns the type of the given node, e.g. `1` for an element. */
+  getNodeType(node: N): number;
+  /** Returns the children of the given node. */
+  getChildNodes(node: N): ArrayLike<N>;
+  /** Returns the parent of the given node, if any. */
+  getParentNode(node: N): N | null | undefined;
+  /** Returns the data of the given text node or comment. */
+  getData(node: N): string;
+  /** Returns the lowercase local name of the given element. */
+  getLocalName(element: N): string;
+  /** Returns the attributes of the given element. */
+  getAttributes(element: N): ArrayLike<A>;
+  /** Returns the element of the given attribute, if any. */
+  getOwnerElement(attribute: A): N | null | undefined;
+  /** Returns the lowercase name of the given attribute. */
+  getAttributeName(attribute: A): string;
+  /** Returns the value of the given attribute. */
+  getAttributeValue(attribute: A): string;
+  /**
+   * Parses the given HTML string into a fragment, as if it was the contents of
+   * an element of the given namespace (`Namespace.Html` by default), as used by
+   * `findInHtml`.
+   */
+  parseFragment(html: string, namespace?: Namespace): N;
+  /** Removes the given attribute from its element, as used by `findBindings`. */
+  removeAttribute?(attribute: A): void;
+  /** Sets the value of the given attribute, as used by `findBindings`. */
+  setAttributeValue?(attribute: A, value: string): void;
+  /** Inserts the given node in the given parent, as used by `LiveNodeRange`. */
+  insertBefore?(parent: N, node: N, before: N | null): void;
+  /** Removes the given node from the given parent, as used by `LiveNodeRange`. */
+  removeChild?(parent: N, node: N): void;
+}
+
+/**
+ * The arguments of a constructor that start with a `TreeAdapter` of nodes `N`
+ * with attributes `A`, followed by the given arguments. The adapter can only be
+ * omitted (in which case it defaults to `domTreeAdapter`) if DOM nodes and
+ * attributes are `N`s and `A`s.
+ */
+export type TreeAdapterArguments<N, A, T extends unknown[] = []> = [Node, Attr] extends [N, A]
+  ? [adapter?: TreeAdapter<N, A>, ...rest: T]
+  : [adapter: TreeAdapter<N, A>, ...rest: T];
+
+/**
+ * The `TreeAdapter` of DOM trees, used by default by `LiteralNodesFinder`.
+ */
+export const domTreeAdapter = Object.freeze<TreeAdapter<Node, Attr>>({
+  getNodeType: (node) => node.nodeType,
+  getChildNodes: (node) => node.childNodes,
+  getParentNode: (node) => node.parentNode,
+  getData: (node) => (node as CharacterData).data,
+  // Names of SVG elements and attributes are not lowercase, e.g. `viewBox`.
+  getLocalName: (element) => (element as Element).localName.toLowerCase(),
+  getAttributes: (element) => (element as Element).attributes,
+  getOwnerElement: (attribute) => attribute.ownerElement,
+  getAttributeName: (attribute) => attribute.name.toLowerCase(),
+  getAttributeValue: (attribute) => attribute.value,
+  parseFragment: (html, namespace) => {
+    const range = document.createRange();
+
+    if (namespace !== undefined && namespace !== Namespace.Html) {
+      range.selectNodeContents(
+        document.createElementNS(namespace, namespace === Namespace.Svg ? "svg" : "math"));
+    }
+
+    return range.createContextualFragment(html);
+  },
+  removeAttribute: (attribute) => attribute.ownerElement!.removeAttributeNode(attribute),
+  setAttributeValue: (attribute, value) => {
+    attribute.value = value;
+  },
+  insertBefore: (parent, node, before) => parent.insertBefore(node, before),
+  removeChild: (parent, node) => parent.removeChild(node),
+});
+
+/**
+ * A node of a tree returned by `parseHtmlTemplate`, or the tree itself.
+ */
+export type TemplateTreeNode = TemplateNode | HtmlTemplate;
+
+/**
+ * The parents of the nodes whose children were returned by the
+ * `templateTreeAdapter`.
+ */
+const templateTreeParents = new WeakMap<TemplateTreeNode, TemplateTreeNode>();
+
+/**
+ * The elements of the attributes returned by the `templateTreeAdapter`.
+ */
+const templateTreeOwners =
+  new WeakMap<TemplateNode.Attribute | TemplateNode.Binding, TemplateNode.Element>();
+
+/**
+ * The `TreeAdapter` of trees returned by `parseHtmlTemplate`, which does not
+ * require a DOM. HTML is parsed with `parseHtmlTemplate`, which (unlike
+ * browsers) neither creates implied elements nor decodes character references.
+ */
+export const templateTreeAdapter = Object.freeze<
+  TreeAdapter<TemplateTreeNode, TemplateNode.Attribute | TemplateNode.Binding>
+>({
+  getNodeType(node) {
+    if (!("kind" in node)) {
+      return 11 /* DOCUMENT_FRAGMENT_NODE */;
+    }
+
+    switch (node.kind) {
+      case TemplateNode.Kind.Element:
+        return 1 /* ELEMENT_NODE */;
+      case TemplateNode.Kind.Text:
+        return 3 /* TEXT_NODE */;
+      case TemplateNode.Kind.Comment:
+        return 8 /* COMMENT_NODE */;
+      default:
+        return 0;
+    }
+  },
+
+  getChildNodes(node) {
+    if ("kind" in node && node.kind !== TemplateNode.Kind.Element) {
+      return [];
+    }
+
+    const children = node.children;
+
+    for (let i = 0, len = children.length; i < len; i++) {
+      templateTreeParents.set(children[i], node);
+    }
+
+    return children;
+  },
+
+  getParentNode: (node) => templateTreeParents.get(node),
+
+  getData(node) {
+    if (!("kind" in node)
+        || (node.kind !== TemplateNode.Kind.Text && node.kind !== TemplateNode.Kind.Comment)) {
+      return "";
+    }
+
+    const data = node.value.strings.join(""),
+          parent = templateTreeParents.get(node);
+
+    if (node.kind === TemplateNode.Kind.Text
+        && data.charCodeAt(0) === Code.LF
+        && parent !== undefined
+        && "kind" in parent
+        && parent.kind === TemplateNode.Kind.Element
+        && parent.children[0] === node
+        && (parent.tagName === "textarea" || parent.tagName === "pre" || parent.tagName === "listing")) {
+      // The HTML parser ignores the first newline of these elements.
+      return data.slice(1);
+    }
+
+    return data;
+  },
+
+  getLocalName: (element) => (element as TemplateNode.Element).tagName,
+
+  getAttributes(element) {
+    const attributes = (element as TemplateNode.Element).attributes;
+
+    for (let i = 0, len = attributes.length; i < len; i++) {
+      templateTreeOwners.set(attributes[i], element as TemplateNode.Element);
+    }
+
+    return attributes;
+  },
+
+  getOwnerElement: (attribute) => templateTreeOwners.get(attribute),
+
+  getAttributeName: (attribute) =>
+    attribute.kind === TemplateNode.Kind.Attribute ? attribute.name.strings.join("").toLowerCase() : "",
+
+  getAttributeValue: (attribute) =>
+    attribute.kind === TemplateNode.Kind.Attribute && attribute.value !== undefined
+      ? attribute.value.strings.join("")
+      : "",
+
+  parseFragment: (html, namespace) => parseHtmlTemplate([html], { namespace }),
+});
+
+/**
+ * A template literal compiled by `compileTemplate`, whose fragment can be
+ * cloned along with the nodes of its parts.
+ */
+export class CompiledTemplate {
+  public constructor(
+    /** The strings of the literal. */
+    public readonly strings: readonly string[],
+    /** The parts of the literal, as returned by `parseHtmlLiteral`. */
+    public readonly parts: readonly LiteralPart[],
+    /** The HTML of the literal with placeholders, as returned by `renderToHtml`. */
+    public readonly html: string,
+    /** The namespace in which the literal was parsed, e.g. `Namespace.Svg`. */
+    public readonly namespace: Namespace,
+    /** The `<template>` element whose contents are the parsed `html`. */
+    public readonly element: HTMLTemplateElement,
+    /** The finder of the nodes of the parts in clones of `element`. */
+    public readonly finder: LiteralNodesFinder,
+  ) {
+    Object.freeze(this);
+  }
+
+  /**
+   * The original names of the attributes renamed in `html`, keyed by their
+   * placeholder name (see `LiteralNodesFinder.attributeNames`).
+   */
+  public get attributeNames() {
+    return this.finder.attributeNames;
+  }
+
+  /**
+   * Returns a new fragment cloned from the contents of `element`, along with
+   * the nodes of its parts as returned by `LiteralNodesFinder.find`.
+   */
+  public clone(): ClonedTemplate {
+    const fragment = document.importNode(this.element.content, true);
+
+    return { fragment, nodes: this.finder.find(fragment) };
+  }
+}
+
+/**
+ * A fragment returned by `CompiledTemplate.clone`.
+ */
+export interface ClonedTemplate {
+  /** The cloned fragment. */
+  readonly fragment: DocumentFragment;
+  /** The nodes of the parts of the template in `fragment`. */
+  readonly nodes: readonly (Node | Attr)[];
+}
+
+/**
+ * The templates returned by `compileTemplate`, keyed by their strings and then
+ * by their namespace.
+ */
+const compiledTemplates = new WeakMap<readonly string[], Map<Namespace, CompiledTemplate>>();
+
+/**
+ * Compiles the given HTML string literal into a `CompiledTemplate`. Since the
+ * strings of a tagged template are always the same object, the result is
+ * cached: compiling the same strings again returns the same template.
+ *
+ * The literal is parsed as the contents of an element of the given namespace
+ * (`Namespace.Html` by default), e.g. `Namespace.Svg` for a fragment that will
+ * be inserted in an `<svg>` element.
+ *
+ * ### Example
+ *
+ * ```ts
+ * function html(strings: TemplateStringsArray, ...values: unknown[]) {
+ *   const { fragment, nodes } = compileTemplate(strings).clone();
+ *
+ *   // Update `nodes` with `values`...
+ *
+ *   return fragment;
+ * }
+ * ```
+ */
+export function compileTemplate(strings: readonly string[], namespace = Namespace.Html) {
+  let templates = compiledTemplates.get(strings);
+
+  if (templates === undefined) {
+    compiledTemplates.set(strings, templates = new Map());
+  }
+
+  let template = templates.get(namespace);
+
+  if (template === undefined) {
+    const parts = parseHtmlLiteral(strings, { namespace }),
+          markers = getUniqueMarkerScheme(strings),
+          html = renderToHtml(strings, parts, { markers }),
+          element = document.createElement("template"),
+          finder = new LiteralNodesFinder(parts, domTreeAdapter, { markers });
+
+    if (namespace === Namespace.Html) {
+      element.innerHTML = html;
+    } else {
+      // Foreign elements are only created in a foreign parent, which is then
+      // replaced by its children.
+      const tagName = namespace === Namespace.Svg ? "svg" : "math";
+
+      element.innerHTML = `<${tagName}>${html}</${tagName}>`;
+
+      const parent = element.content.firstChild!;
+
+      while (parent.firstChild !== null) {
+        element.content.insertBefore(parent.firstChild, parent);
+      }
+
+      element.content.removeChild(parent);
+    }
+
+    // Find the nodes once so that the finder can compute its indices, and then
+    // find nodes faster in clones.
+    finder.find(element.content);
+
+    templates.set(namespace, template = new CompiledTemplate(strings, parts, html, namespace, element, finder));
+  }
+
+  return template;
+}
+
+/**
+ * Options given to `TemplateInstance`.
+ */
+export interface TemplateInstanceOptions {
+  /**
+   * The sanitizer of the values of regular attributes and properties, and of
+   * the values in `Data` positions, which is also used by the instances of the
+   * lists of the instance. Defaults to `defaultSanitizer`.
+   */
+  readonly sanitizer?: Sanitizer;
+  /**
+   * Called with the error and the index of the binding when a promise given to
+   * the instance (or to the instances of its lists) rejects, or when an async
+   * iterable throws, in which case the binding keeps its last value. Errors are
+   * ignored by default.
+   */
+  readonly onError?: (error: unknown, index: number) => void;
+}
+
+/**
+ * A value that was never committed to a `TemplateInstance`.
+ */
+const uncommitted = {};
+
+/**
+ * The strings of the template of each item of the iterables committed to
+ * `Node` positions by a `TemplateInstance`, i.e. `${0}`.
+ */
+const listItemStrings: readonly string[] = Object.freeze(["", ""]);
+
+/**
+ * An instance of a `CompiledTemplate` whose nodes can be updated with new
+ * values, only committing the values that changed since the last update:
+ * - In `Node` positions, nodes are inserted as-is, `null` and `undefined`
+ *   render nothing, lists created by `repeat` render their items, nested
+ *   `TemplateResult`s are rendered by a child instance (which is updated while
+ *   the strings of the result are the same), arrays and other iterables render
+ *   each of their items as if it was in its own `Node` position, and other
+ *   values are rendered as text nodes, whose data is updated in place when
+ *   another non-node value is given.
+ * - In `Attribute` and `Text` positions, the whole attribute (or text) is
+ *   recomputed from its `valueParts` and committed once if any of its values
+ *   changed. Values of regular attributes and properties are sanitized (see
+ *   `TemplateInstanceOptions.sanitizer`). Properties are assigned, event
+ *   handlers are called by an `EventListenerBinding` (which is only added
+ *   once, and removed by `dispose`), and boolean attributes are added if their
+ *   value is truthy and removed otherwise. `Custom` attributes are ignored.
+ * - In `Data` positions, the properties of the given object are sanitized and
+ *   assigned to the element, e.g. `{ value: "a", onclick: () => {} }`.
+ *   Properties that were set previously but are missing from the new object
+ *   are reset (see `commitData`), unless their attribute is bound by another
+ *   binding.
+ * - `Comment` and `Invalid` parts are ignored.
+ *
+ * `TagName` and `AttributeName` parts are not supported, and throw a
+ * `TypeError` when creating the instance.
+ *
+ * ### Example
+ *
+ * ```ts
+ * const instance = new TemplateInstance(compileTemplate(literal`<p title=${0}>${1}</p>`));
+ *
+ * instance.update(["a", "b"]);
+ * document.body.append(instance.fragment);
+ * instance.update(["a", "c"]);  // Only updates the data of the text node.
+ * ```
+ */
+export class TemplateInstance {
+  /**
+   * The fragment in which the nodes of the instance are initially, and which
+   * may be inserted anywhere.
+   */
+  public readonly fragment: DocumentFragment;
+
+  private readonly nodes: readonly (Node | Attr)[];
+  private readonly values: unknown[];
+  /** The nodes inserted by the bindings, i.e. the children of fragments. */
+  private readonly committedNodes: (readonly Node[] | undefined)[];
+  private readonly repeatedItems: (readonly RepeatedItem[] | undefined)[];
+  private readonly listeners: (EventListenerBinding | undefined)[];
+  private readonly directives: (Directive | undefined)[];
+  private readonly asyncValues: unknown[];
+  /** The attributes of the elements of `Data` parts in the template. */
+  private readonly templateAttributes: (TemplateAttributes | undefined)[];
+  private readonly sanitizer: Sanitizer;
+  private readonly onError: ((error: unknown, index: number) => void) | undefined;
+
+  public constructor(
+    /** The template of which this is an instance. */
+    public readonly template: CompiledTemplate,
+    options?: TemplateInstanceOptions,
+  ) {
+    const { fragment, nodes: foundNodes } = template.clone(),
+          nodes = foundNodes.slice(),
+          parts = template.parts,
+          listeners = new Array<EventListenerBinding | undefined>(parts.length);
+
+    for (let i = 0, len = parts.length; i < len; i++) {
+      const part = parts[i];
+
+      if (part.type === LiteralPart.Kind.TagName || part.type === LiteralPart.Kind.AttributeName) {
+        throw new TypeError(`Dynamic names are not supported by TemplateInstance (binding ${i}).`);
+      }
+
+      if (part.type === LiteralPart.Kind.Data
+          || (part.type === LiteralPart.Kind.Attribute
+              && part.kind !== LiteralPart.AttributeKind.Attribute
+              && part.index === 0)) {
+        // Keep the element rather than the placeholder attribute, which is
+        // removed.
+        const attr = nodes[i] as Attr,
+              element = attr.ownerElement!;
+
+        element.removeAttributeNode(attr);
+        nodes[i] = element;
+
+        if (part.type === LiteralPart.Kind.Attribute && part.kind === LiteralPart.AttributeKind.Event) {
+          listeners[i] = new EventListenerBinding(element, part.name);
+        }
+      }
+    }
+
+    const templateAttributes = new Array<TemplateAttributes | undefined>(parts.length);
+
+    for (let i = 0, len = parts.length; i < len; i++) {
+      if (parts[i].type === LiteralPart.Kind.Data) {
+        templateAttributes[i] = getTemplateAttributes(nodes[i] as Element, parts, nodes);
+      }
+    }
+
+    this.fragment = fragment;
+    this.nodes = nodes;
+    this.values = new Array(parts.length).fill(uncommitted);
+    this.committedNodes = new Array(parts.length);
+    this.repeatedItems = new Array(parts.length);
+    this.listeners = listeners;
+    this.directives = new Array(parts.length);
+    this.asyncValues = new Array(parts.length);
+    this.templateAttributes = templateAttributes;
+    this.sanitizer = options?.sanitizer ?? defaultSanitizer;
+    this.onError = options?.onError;
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Removes the event listeners, disconnects the directives and stops awaiting
+   * the asynchronous values of the instance and of the instances of its lists,
+   * which may no longer be updated.
+   */
+  public dispose() {
+    this.asyncValues.fill(undefined);
+
+    const listeners = this.listeners,
+          directives = this.directives,
+          repeatedItems = this.repeatedItems;
+
+    for (let i = 0, len = listeners.length; i < len; i++) {
+      listeners[i]?.dispose();
+      directives[i]?.disconnect();
+      directives[i] = undefined;
+
+      const items = repeatedItems[i];
+
+      if (items !== undefined) {
+        for (let j = 0, itemsLen = items.length; j < itemsLen; j++) {
+          items[j].instance.dispose();
+        }
+      }
+    }
+  }
+
+  /**
+   * Commits the given values, i.e. one value per part of the template, to the
+   * nodes of the instance.
+   *
+   * Promises, async iterables and values created by `until` are committed as
+   * their placeholder (or nothing) at first, and then as each of their values
+   * as they arrive, unless another value was committed to the binding since.
+   * Their errors are given to `TemplateInstanceOptions.onError`.
+   */
+  public update(values: readonly unknown[]) {
+    const resolvedValues = new Array<unknown>(values.length);
+
+    for (let i = 0, len = values.length; i < len; i++) {
+      resolvedValues[i] = this.resolve(i, values[i]);
+    }
+
+    this.commit(resolvedValues);
+  }
+
+  /**
+   * Returns the value to commit now to the binding at the given index, and
+   * starts awaiting the given value if it is asynchronous.
+   */
+  private resolve(index: number, value: unknown) {
+    const asyncValues = this.asyncValues,
+          committedValue = this.values[index] === uncommitted ? undefined : this.values[index];
+
+    if (!(value instanceof PendingValue || isPromiseLike(value) || isAsyncIterable(value))) {
+      asyncValues[index] = undefined;
+
+      return value;
+    }
+
+    if (asyncValues[index] === value) {
+      // Keep the last value committed for the same asynchronous value.
+      return committedValue;
+    }
+
+    asyncValues[index] = value;
+
+    const source = value instanceof PendingValue ? value.value : value,
+          commitValue = (resolvedValue: unknown) => {
+            if (asyncValues[index] !== value) {
+              // A newer value was given to the binding, or the instance was
+              // disposed.
+              return false;
+            }
+
+            // Bindings that were never committed get nothing.
+            const nextValues = this.values.map((previousValue) =>
+              previousValue === uncommitted ? undefined : previousValue);
+
+            nextValues[index] = resolvedValue;
+            this.commit(nextValues);
+
+            return true;
+          },
+          reportError = (error: unknown) => {
+            if (asyncValues[index] === value) {
+              this.onError?.(error, index);
+            }
+          };
+
+    // Errors thrown when committing values (e.g. by the sanitizer) are also
+    // reported.
+    if (isPromiseLike(source)) {
+      source.then(commitValue).then(undefined, reportError);
+    } else {
+      const iterator = (source as AsyncIterableLike)[Symbol.asyncIterator](),
+            next = (): void => {
+              iterator.next().then((result) => {
+                if (result.done) {
+                  return;
+                }
+
+                if (commitValue(result.value)) {
+                  next();
+                } else {
+                  iterator.return?.();
+                }
+              }).then(undefined, reportError);
+            };
+
+      next();
+    }
+
+    return value instanceof PendingValue ? value.placeholder : committedValue;
+  }
+
+  private commit(values: readonly unknown[]) {
+    const parts = this.template.parts,
+          previousValues = this.values;
+
+    for (let i = 0, len = parts.length; i < len; i++) {
+      const part = parts[i],
+            value = values[i];
+      let previousValue = previousValues[i];
+
+      if (part.type === LiteralPart.Kind.Invalid) {
+        continue;
+      }
+
+      if (value instanceof DirectiveResult) {
+        if (!Object.is(value, previousValue)) {
+          previousValues[i] = value;
+          this.commitDirective(i, part, value, previousValue);
+        }
+
+        continue;
+      }
+
+      if (this.directives[i] !== undefined) {
+        // The directive is replaced by a regular value, which is committed as
+        // if it was the first value of the binding.
+        this.directives[i]!.disconnect();
+        this.directives[i] = undefined;
+        previousValues[i] = previousValue = uncommitted;
+      }
+
+      if (part.type === LiteralPart.Kind.Attribute || part.type === LiteralPart.Kind.Text) {
+        // All the values of the attribute (or text) are checked at once.
+        if (part.index === 0) {
+          this.commitInterpolation(i, part, values);
+        }
+
+        continue;
+      }
+
+      if (Object.is(value, previousValue)) {
+        continue;
+      }
+
+      previousValues[i] = value;
+
+      if (part.type === LiteralPart.Kind.Node) {
+        this.commitNode(i, value, previousValue);
+      } else if (part.type === LiteralPart.Kind.Data) {
+        commitData(this.nodes[i] as Element, value, previousValue, this.sanitizer, this.templateAttributes[i]!);
+      }
+    }
+  }
+
+  private commitDirective(index: number, part: LiteralPart, result: DirectiveResult, previousValue: unknown) {
+    let directive = this.directives[index];
+
+    if (directive !== undefined && directive.constructor === result.type) {
+      directive.update(...result.args);
+
+      return;
+    }
+
+    if ((part.type === LiteralPart.Kind.Attribute || part.type === LiteralPart.Kind.Text)
+        && (part.valueParts.length !== 2 || part.valueParts.join("") !== "")) {
+      throw new TypeError(`Directives must be the whole value of their attribute or text (binding ${index}).`);
+    }
+
+    if (directive !== undefined) {
+      directive.disconnect();
+    } else if (previousValue !== uncommitted) {
+      this.clearBinding(index, part, previousValue);
+    }
+
+    const node = this.nodes[index];
+
+    if (part.type === LiteralPart.Kind.Attribute && part.kind === LiteralPart.AttributeKind.Attribute) {
+      // Keep the attribute, so that a regular value can be committed later.
+      (node as Attr).value = "";
+    }
+
+    directive = new result.type({
+      index,
+      part,
+      node: node.nodeType === 2 /* ATTRIBUTE_NODE */ ? (node as Attr).ownerElement! : node as Node,
+    });
+    this.directives[index] = directive;
+    directive.firstCommit(...result.args);
+  }
+
+  /**
+   * Reverts the regular value committed to the given binding before a directive
+   * is committed to it.
+   */
+  private clearBinding(index: number, part: LiteralPart, previousValue: unknown) {
+    if (part.type === LiteralPart.Kind.Node) {
+      this.commitNode(index, null, previousValue);
+    } else if (part.type === LiteralPart.Kind.Data) {
+      commitData(
+        this.nodes[index] as Element, null, previousValue, this.sanitizer, this.templateAttributes[index]!);
+    } else if (part.type === LiteralPart.Kind.Text) {
+      (this.nodes[index] as Text).data = "";
+    } else if (part.type === LiteralPart.Kind.Attribute) {
+      this.listeners[index]?.dispose();
+    }
+  }
+
+  private commitInterpolation(
+    index: number,
+    part: LiteralPart.Attribute | LiteralPart.Text,
+    values: readonly unknown[],
+  ) {
+    const previousValues = this.values,
+          end = index + part.valueParts.length - 1;
+    let changed = false;
+
+    for (let i = index; i < end; i++) {
+      if (!Object.is(values[i], previousValues[i])) {
+        previousValues[i] = values[i];
+        changed = true;
+      }
+    }
+
+    if (!changed) {
+      return;
+    }
+
+    const node = this.nodes[index],
+          value = interpolateValues(part.valueParts, values, index);
+
+    if (part.type === LiteralPart.Kind.Text) {
+      (node as Text).data = String(value ?? "");
+
+      return;
+    }
+
+    switch (part.kind) {
+      case LiteralPart.AttributeKind.Attribute:
+        (node as Attr).ownerElement!.setAttribute(
+          (node as Attr).name,
+          String(sanitizeAttributeValue(part, part.tagName, part.name, values, index, value, this.sanitizer) ?? ""));
+        break;
+
+      case LiteralPart.AttributeKind.Property:
+        (node as unknown as Record<string, unknown>)[part.name] =
+          sanitizeAttributeValue(part, part.tagName, part.name, values, index, value, this.sanitizer);
+        break;
+
+      case LiteralPart.AttributeKind.Event:
+        this.listeners[index]!.update(value);
+        break;
+
+      case LiteralPart.AttributeKind.BooleanAttribute:
+        if (value) {
+          (node as Element).setAttribute(part.name, "");
+        } else {
+          (node as Element).removeAttribute(part.name);
+        }
+        break;
+    }
+  }
+
+  private commitNode(index: number, value: unknown, previousValue: unknown) {
+    const marker = this.nodes[index] as Comment,
+          committedNodes = this.committedNodes[index];
+
+    if (value instanceof RepeatDirective || value instanceof TemplateResult || isIterable(value)) {
+      removeNodes(committedNodes);
+      this.committedNodes[index] = undefined;
+      this.commitRepeat(index, toRepeatDirective(value));
+
+      return;
+    }
+
+    this.clearRepeat(index);
+
+    if (value === null || value === undefined) {
+      removeNodes(committedNodes);
+      this.committedNodes[index] = undefined;
+
+      return;
+    }
+
+    if (!(value instanceof Node)) {
+      if (committedNodes !== undefined && !(previousValue instanceof Node)) {
+        // Update the text node that was created for the previous value.
+        (committedNodes[0] as Text).data = String(value);
+
+        return;
+      }
+
+      value = document.createTextNode(String(value));
+    }
+
+    const node = value as Node,
+          // Fragments are empty once inserted, so their children are kept
+          // instead.
+          nodes = node.nodeType === 11 /* DOCUMENT_FRAGMENT_NODE */ ? Array.from(node.childNodes) : [node];
+
+    removeNodes(committedNodes);
+    marker.parentNode!.insertBefore(node, marker);
+    this.committedNodes[index] = nodes;
+  }
+
+  private commitRepeat(index: number, directive: RepeatDirective) {
+    const marker = this.nodes[index] as Comment,
+          parent = marker.parentNode!,
+          // Items are parsed in the namespace of the contents of their parent.
+          namespace = (this.template.parts[index] as LiteralPart.Node).namespace,
+          previousItems = this.repeatedItems[index] ?? [],
+          previousItemsByKey = new Map<unknown, RepeatedItem>(),
+          previousIndices = new Map<RepeatedItem, number>(),
+          reusedItems = new Set<RepeatedItem>(),
+          values = Array.from(directive.items),
+          items = [] as RepeatedItem[];
+
+    for (let j = previousItems.length - 1; j >= 0; j--) {
+      previousItemsByKey.set(previousItems[j].key, previousItems[j]);
+      previousIndices.set(previousItems[j], j);
+    }
+
+    for (let i = 0, len = values.length; i < len; i++) {
+      const key = directive.key(values[i], i),
+            result = directive.template(values[i], i),
+            template = compileTemplate(result.strings, namespace);
+      let item = previousItemsByKey.get(key);
+
+      if (item !== undefined && item.instance.template === template) {
+        // Items with duplicate keys get new instances.
+        previousItemsByKey.delete(key);
+        reusedItems.add(item);
+      } else {
+        const instance = new TemplateInstance(template, { sanitizer: this.sanitizer, onError: this.onError }),
+              start = document.createComment(""),
+              end = document.createComment("");
+
+        instance.fragment.insertBefore(start, instance.fragment.firstChild);
+        instance.fragment.appendChild(end);
+        item = { key, instance, range: { start, end } };
+      }
+
+      item.instance.update(result.values);
+      items.push(item);
+    }
+
+    // Remove the items that are no longer rendered.
+    for (let j = 0, len = previousItems.length; j < len; j++) {
+      if (!reusedItems.has(previousItems[j])) {
+        removeRange(previousItems[j].range);
+        previousItems[j].instance.dispose();
+        previousIndices.delete(previousItems[j]);
+      }
+    }
+
+    // Items whose previous indices are in the longest increasing subsequence
+    // stay in place, and the other ones are moved (or inserted).
+    const stayingItems = getLongestIncreasingSubsequence(
+      items.map((item) => previousIndices.get(item) ?? -1));
+    let nextNode: Node = marker;
+
+    for (let j = items.length - 1; j >= 0; j--) {
+      const item = items[j];
+
+      if (!stayingItems[j]) {
+        if (previousIndices.has(item)) {
+          moveRange(item.range, parent, nextNode);
+        } else {
+          parent.insertBefore(item.instance.fragment, nextNode);
+        }
+      }
+
+      nextNode = item.range.start;
+    }
+
+    this.repeatedItems[index] = items;
+  }
+
+  private clearRepeat(index: number) {
+    const items = this.repeatedItems[index];
+
+    if (items !== undefined) {
+      for (let i = 0, len = items.length; i < len; i++) {
+        removeRange(items[i].range);
+        items[i].instance.dispose();
+      }
+
+      this.repeatedItems[index] = undefined;
+    }
+  }
+}
+
+/**
+ * Returns the list which renders the given value in a `Node` position of a
+ * `TemplateInstance`: a `TemplateResult` is the only item of its list, keyed by
+ * its strings, and the items of iterables are keyed by their index.
+ */
+function toRepeatDirective(value: RepeatDirective | TemplateResult | Iterable<unknown>): RepeatDirective {
+  if (value instanceof RepeatDirective) {
+    return value;
+  }
+
+  if (value instanceof TemplateResult) {
+    return repeat<unknown>([value], () => value.strings, () => value);
+  }
+
+  return repeat(
+    value,
+    (_, index) => index,
+    (item) => new TemplateResult(listItemStrings, compileTemplate(listItemStrings).parts, [item]));
+}
+
+/**
+ * An item rendered by a `RepeatDirective` in a `TemplateInstance`.
+ */
+interface RepeatedItem {
+  readonly key: unknown;
+  readonly instance: TemplateInstance;
+  /** The empty comments surrounding the nodes of `instance`. */
+  readonly range: NodeRange;
+}
+
+/**
+ * A list of items rendered in a `Node` position, created by `repeat`.
+ */
+export class RepeatDirective<T = unknown> {
+  public constructor(
+    /** The items to render. */
+    public readonly items: Iterable<T>,
+    /** Returns the key which identifies the given item across updates. */
+    public readonly key: (item: T, index: number) => unknown,
+    /** Returns the template of the given item. */
+    public readonly template: (item: T, index: number) => TemplateResult,
+  ) {
+    Object.freeze(this);
+  }
+}
+
+/**
+ * Returns a directive which renders the given items in a `Node` position, using
+ * the given template for each item.
+ *
+ * When updated by a `TemplateInstance`, the instances of items whose key did
+ * not change are reused, and as few of them as possible are moved. Each item
+ * is surrounded by empty comments, and all items are inserted before the
+ * placeholder found by `LiteralNodesFinder`, which thus stays valid across
+ * updates. With `renderToString`, the items are rendered like an array.
+ *
+ * ### Example
+ *
+ * ```ts
+ * instance.update([
+ *   repeat(users, (user) => user.id, (user) => html`<li>${user.name}</li>`),
+ * ]);
+ * ```
+ */
+export function repeat<T>(
+  items: Iterable<T>,
+  key: (item: T, index: number) => unknown,
+  template: (item: T, index: number) => TemplateResult,
+) {
+  return new RepeatDirective(items, key, template);
+}
+
+/**
+ * An async iterable, i.e. an object with a `Symbol.asyncIterator` method, whose
+ * iterator may return any thenable.
+ */
+export interface AsyncIterableLike<T = unknown> {
+  [Symbol.asyncIterator](): {
+    next(): PromiseLike<IteratorResult<T>>;
+    return?(): unknown;
+  };
+}
+
+/**
+ * A promise or async iterable rendered with a placeholder until its values
+ * arrive, created by `until`.
+ */
+export class PendingValue {
+  public constructor(
+    /** The promise or async iterable whose values are rendered. */
+    public readonly value: PromiseLike<unknown> | AsyncIterableLike,
+    /** The value rendered until the first value of `value` arrives. */
+    public readonly placeholder: unknown,
+  ) {
+    Object.freeze(this);
+  }
+}
+
+/**
+ * Returns a value which renders the given placeholder in a `TemplateInstance`
+ * until the given promise resolves (or the given async iterable yields its
+ * first value). `renderToString` renders the placeholder in `Node` positions,
+ * and `renderToStringAsync` only renders the final value.
+ *
+ * ### Example
+ *
+ * ```ts
+ * instance.update([until(fetchUser().then((user) => user.name), "Loading...")]);
+ * ```
+ */
+export function until(value: PromiseLike<unknown> | AsyncIterableLike, placeholder: unknown) {
+  return new PendingValue(value, placeholder);
+}
+
+/**
+ * The binding to which a `Directive` is committed by a `TemplateInstance`.
+ */
+export interface DirectiveBinding {
+  /** The index of the binding in the literal. */
+  readonly index: number;
+  /**
+   * The part of the binding, e.g. an `Attribute` part with its `attributeName`
+   * and `valueParts`.
+   */
+  readonly part: LiteralPart;
+  /**
+   * The node of the binding, i.e. the element of `Attribute` and `Data` parts,
+   * the placeholder comment before which the nodes of `Node` parts are
+   * inserted, and the text node or comment of `Text` and `Comment` parts.
+   */
+  readonly node: Node;
+}
+
+/**
+ * A custom behavior of a binding of a `TemplateInstance`, created when a
+ * `DirectiveResult` with its class is committed to the binding, e.g. by
+ * `classMap`, `styleMap` and `ref`.
+ *
+ * The same directive is updated as long as results of its class are committed
+ * to the binding, and is disconnected when another value is committed or when
+ * the instance is disposed. Directives can be used in all positions, but must
+ * be the whole value of their attribute or text.
+ *
+ * ### Example
+ *
+ * ```ts
+ * class TitleDirective extends Directive<[string]> {
+ *   public update(title: string) {
+ *     (this.binding.node as Element).setAttribute("title", title);
+ *   }
+ *
+ *   public disconnect() {
+ *     (this.binding.node as Element).removeAttribute("title");
+ *   }
+ * }
+ *
+ * const title = directive(TitleDirective);
+ *
+ * instance.update([title("Hello")]);  // In `<p ${0}>`.
+ * ```
+ */
+export abstract class Directive<A extends unknown[] = unknown[]> {
+  public constructor(
+    /** The binding to which the directive is committed. */
+    public readonly binding: DirectiveBinding,
+  ) {}
+
+  /**
+   * Called when the directive is first committed to its binding, with the
+   * arguments of the `DirectiveResult`. Calls `update` by default.
+   */
+  public firstCommit(...args: A) {
+    this.update(...args);
+  }
+
+  /**
+   * Called when a new `DirectiveResult` of the class of the directive is
+   * committed to its binding, with the arguments of the result.
+   */
+  public abstract update(...args: A): void;
+
+  /**
+   * Called when another value is committed to the binding, or when the instance
+   * is disposed. Does nothing by default.
+   */
+  public disconnect() {}
+}
+
+/**
+ * The class of a `Directive`.
+ */
+export type DirectiveClass<A extends unknown[] = unknown[]> = new (binding: DirectiveBinding) => Directive<A>;
+
+/**
+ * A value which commits a directive of the given class with the given
+ * arguments when given to a `TemplateInstance`, created by the functions
+ * returned by `directive`.
+ */
+export class DirectiveResult<A extends unknown[] = unknown[]> {
+  public constructor(
+    /** The class of the directive. */
+    public readonly type: DirectiveClass<A>,
+    /** The arguments given to `firstCommit` or `update`. */
+    public readonly args: A,
+  ) {
+    Object.freeze(this);
+  }
+}
+
+/**
+ * Returns a function which returns a `DirectiveResult` of the given class with
+ * the arguments it is given.
+ */
+export function directive<A extends unknown[]>(type: DirectiveClass<A>) {
+  return (...args: A) => new DirectiveResult(type, args);
+}
+
+/**
+ * The directive created by `classMap`.
+ */
+class ClassMapDirective extends Directive<[Readonly<Record<string, unknown>>]> {
+  private readonly classNames = new Set<string>();
+
+  public constructor(binding: DirectiveBinding) {
+    super(binding);
+
+    checkDirectiveAttribute(binding, "class", "classMap");
+  }
+
+  public update(classes: Readonly<Record<string, unknown>>) {
+    const classList = (this.binding.node as Element).classList,
+          classNames = this.classNames;
+
+    classNames.forEach((className) => {
+      if (!classes[className]) {
+        classList.remove(className);
+        classNames.delete(className);
+      }
+    });
+
+    for (const className in classes) {
+      if (classes[className] && !classNames.has(className)) {
+        classList.add(className);
+        classNames.add(className);
+      }
+    }
+  }
+
+  public disconnect() {
+    this.update({});
+  }
+}
+
+/**
+ * Returns a directive which adds the classes of the given object whose value is
+ * truthy to an element, and removes the other classes it added, e.g.
+ * `<p class=${classMap({ active: isActive })}>`.
+ */
+export const classMap = directive(ClassMapDirective);
+
+/**
+ * The directive created by `styleMap`.
+ */
+class StyleMapDirective extends Directive<[Readonly<Record<string, string | number | null | undefined>>]> {
+  private readonly properties = new Set<string>();
+
+  public constructor(binding: DirectiveBinding) {
+    super(binding);
+
+    checkDirectiveAttribute(binding, "style", "styleMap");
+  }
+
+  public update(styles: Readonly<Record<string, string | number | null | undefined>>) {
+    const style = (this.binding.node as HTMLElement).style,
+          properties = this.properties;
+
+    properties.forEach((property) => {
+      if (styles[property] == null) {
+        style.removeProperty(getStylePropertyName(property));
+        properties.delete(property);
+      }
+    });
+
+    for (const property in styles) {
+      const value = styles[property];
+
+      if (value != null) {
+        style.setProperty(getStylePropertyName(property), String(value));
+        properties.add(property);
+      }
+    }
+  }
+
+  public disconnect() {
+    this.update({});
+  }
+}
+
+/**
+ * Returns a directive which sets the style properties of the given object on an
+ * element, and removes those it set previously which are now `null` or
+ * `undefined`, e.g. `<p style=${styleMap({ fontSize: "2em", "--gap": 4 })}>`.
+ * Property names may be camel-cased or hyphenated.
+ */
+export const styleMap = directive(StyleMapDirective);
+
+/**
+ * A reference to a node, set by `ref`.
+ */
+export interface Ref<T = Element> {
+  /** The node, or `undefined` if the directive was disconnected. */
+  value?: T;
+}
+
+/**
+ * Returns a new `Ref`.
+ */
+export function createRef<T = Element>(): Ref<T> {
+  return {};
+}
+
+/**
+ * The directive created by `ref`.
+ */
+class RefDirective extends Directive<[Ref<unknown> | ((node: unknown) => void)]> {
+  private target?: Ref<unknown> | ((node: unknown) => void);
+
+  public update(target: Ref<unknown> | ((node: unknown) => void)) {
+    if (target === this.target) {
+      return;
+    }
+
+    this.disconnect();
+    this.target = target;
+
+    if (typeof target === "function") {
+      target(this.binding.node);
+    } else {
+      target.value = this.binding.node;
+    }
+  }
+
+  public disconnect() {
+    const target = this.target;
+
+    if (typeof target === "function") {
+      target(undefined);
+    } else if (target !== undefined) {
+      target.value = undefined;
+    }
+
+    this.target = undefined;
+  }
+}
+
+/**
+ * Returns a directive which sets the given `Ref` (or calls the given function)
+ * with the node of its binding, e.g. the element of `<input ${ref(input)}>`, and
+ * with `undefined` when it is disconnected.
+ */
+export function ref<T = Element>(target: Ref<T> | ((node: T | undefined) => void)) {
+  // The directive only gives the node of its binding to the target, whose type
+  // is chosen by the caller.
+  return new DirectiveResult(RefDirective, [target as Ref<unknown> | ((node: unknown) => void)]);
+}
+
+const enum Code {
+  TAB = 9,
   LF = 10,
   FF = 12,
   CR = 13,
@@ -689,93 +4778,1621 @@ const enum Code {
   SQUOTE = 39,
   QUESTION = 63,
   COLON = 58,
+  RBRACKET = 93,
+}
+
+const enum State {
+  UNKNOWN = 0,
+  DATA = 1,
+  TAG_OPEN = 2,
+  END_TAG_OPEN = 3,
+  TAG_NAME = 4,
+  BOGUS_COMMENT = 5,
+  BEFORE_ATTRIBUTE_NAME = 6,
+  AFTER_ATTRIBUTE_NAME = 7,
+  ATTRIBUTE_NAME = 8,
+  BEFORE_ATTRIBUTE_VALUE = 9,
+  ATTRIBUTE_VALUE_DOUBLE_QUOTED = 10,
+  ATTRIBUTE_VALUE_SINGLE_QUOTED = 11,
+  ATTRIBUTE_VALUE_UNQUOTED = 12,
+  AFTER_ATTRIBUTE_VALUE_QUOTED = 13,
+  SELF_CLOSING_START_TAG = 14,
+  COMMENT_START = 15,
+  COMMENT_START_DASH = 16,
+  COMMENT = 17,
+  COMMENT_LESS_THAN_SIGN = 18,
+  COMMENT_LESS_THAN_SIGN_BANG = 19,
+  COMMENT_LESS_THAN_SIGN_BANG_DASH = 20,
+  COMMENT_LESS_THAN_SIGN_BANG_DASH_DASH = 21,
+  COMMENT_END_DASH = 22,
+  COMMENT_END = 23,
+  COMMENT_END_BANG = 24,
+  MARKUP_DECLARATION_OPEN = 25,
+  RCDATA = 26,
+  RAWTEXT = 27,
+  SCRIPT_DATA = 28,
+  SCRIPT_DATA_ESCAPED = 29,
+  SCRIPT_DATA_ESCAPED_DASH = 30,
+  SCRIPT_DATA_ESCAPED_DASH_DASH = 31,
+  SCRIPT_DATA_DOUBLE_ESCAPED = 32,
+  SCRIPT_DATA_DOUBLE_ESCAPED_DASH = 33,
+  SCRIPT_DATA_DOUBLE_ESCAPED_DASH_DASH = 34,
+  CDATA_SECTION = 35,
+  CDATA_SECTION_BRACKET = 36,
+  CDATA_SECTION_END = 37,
+}
+
+/**
+ * The names of the `State`s, used in error messages.
+ */
+const stateNames: readonly string[] = [
+  "UNKNOWN",
+  "DATA",
+  "TAG_OPEN",
+  "END_TAG_OPEN",
+  "TAG_NAME",
+  "BOGUS_COMMENT",
+  "BEFORE_ATTRIBUTE_NAME",
+  "AFTER_ATTRIBUTE_NAME",
+  "ATTRIBUTE_NAME",
+  "BEFORE_ATTRIBUTE_VALUE",
+  "ATTRIBUTE_VALUE_DOUBLE_QUOTED",
+  "ATTRIBUTE_VALUE_SINGLE_QUOTED",
+  "ATTRIBUTE_VALUE_UNQUOTED",
+  "AFTER_ATTRIBUTE_VALUE_QUOTED",
+  "SELF_CLOSING_START_TAG",
+  "COMMENT_START",
+  "COMMENT_START_DASH",
+  "COMMENT",
+  "COMMENT_LESS_THAN_SIGN",
+  "COMMENT_LESS_THAN_SIGN_BANG",
+  "COMMENT_LESS_THAN_SIGN_BANG_DASH",
+  "COMMENT_LESS_THAN_SIGN_BANG_DASH_DASH",
+  "COMMENT_END_DASH",
+  "COMMENT_END",
+  "COMMENT_END_BANG",
+  "MARKUP_DECLARATION_OPEN",
+  "RCDATA",
+  "RAWTEXT",
+  "SCRIPT_DATA",
+  "SCRIPT_DATA_ESCAPED",
+  "SCRIPT_DATA_ESCAPED_DASH",
+  "SCRIPT_DATA_ESCAPED_DASH_DASH",
+  "SCRIPT_DATA_DOUBLE_ESCAPED",
+  "SCRIPT_DATA_DOUBLE_ESCAPED_DASH",
+  "SCRIPT_DATA_DOUBLE_ESCAPED_DASH_DASH",
+  "CDATA_SECTION",
+  "CDATA_SECTION_BRACKET",
+  "CDATA_SECTION_END",
+];
+
+function isAsciiAlphaCode(code: number) {
+  return (Code.UPPER_A <= code && code <= Code.UPPER_Z)
+      || (Code.LOWER_A <= code && code <= Code.LOWER_Z);
+}
+
+function createTemplateStringsArray() {
+  const array = [] as string[] & { raw: string[] };
+
+  array.raw = array;
+
+  return array;
+}
+
+function createUnexpectedBindingError(
+  strings: readonly string[],
+  index: number,
+  state: State,
+  reason: string,
+) {
+  return new HtmlLiteralSyntaxError(
+    reason, strings, index, strings[index].length, index, stateNames[state]);
+}
+
+/**
+ * Returns a snippet of the given lines around the given (0-based) line, with a
+ * caret pointing to the given column.
+ */
+function createCodeFrame(lines: readonly string[], line: number, column: number) {
+  const first = Math.max(line - 2, 0),
+        last = Math.min(line + 2, lines.length - 1),
+        gutterWidth = String(last + 1).length,
+        frame = [] as string[];
+
+  for (let i = first; i <= last; i++) {
+    const lineNumber = String(i + 1).padStart(gutterWidth);
+
+    if (i === line) {
+      const indentation = lines[i].slice(0, column).replace(/[^\t]/g, " ");
+
+      frame.push(`> ${lineNumber} | ${lines[i]}`);
+      frame.push(`  ${" ".repeat(gutterWidth)} | ${indentation}^`);
+    } else {
+      frame.push(`  ${lineNumber} | ${lines[i]}`);
+    }
+  }
+
+  return frame.join("\n");
+}
+
+/**
+ * Returns the source of the literal made of the given strings, where the binding
+ * at index `i` is written `${i}`, along with the offset of each string in it.
+ */
+function reconstructSource(strings: readonly string[]) {
+  const offsets = new Array<number>(strings.length);
+  let source = "";
+
+  for (let i = 0, len = strings.length; i < len; i++) {
+    offsets[i] = source.length;
+    source += strings[i];
+
+    if (i < len - 1) {
+      source += "${" + i + "}";
+    }
+  }
+
+  return { source, offsets };
+}
+
+/**
+ * Returns whether the given string, which follows a binding in a tag, starts
+ * with the rest of the name of the attribute of that binding.
+ */
+function startsAttributeName(string: string) {
+  if (string.length === 0) {
+    return false;
+  }
+
+  const code = string.charCodeAt(0);
+
+  return !isSpaceCode(code) && code !== Code.SLASH && code !== Code.GT;
+}
+
+/**
+ * Returns the longest of the given prefixes that the given attribute name starts
+ * with (without being equal to it), or `""` if there is none.
+ */
+function getAttributePrefix(attributeName: string, prefixes: AttributePrefixes) {
+  let longestPrefix = "";
+
+  for (const prefix in prefixes) {
+    if (prefix.length > longestPrefix.length
+        && prefix.length < attributeName.length
+        && attributeName.startsWith(prefix)) {
+      longestPrefix = prefix;
+    }
+  }
+
+  return longestPrefix;
+}
+
+/**
+ * Returns whether the tokenizer is in text in the given state, including after
+ * a `<` that may still start a tag, in raw text and in CDATA sections.
+ */
+function isTextState(state: State) {
+  // Raw text and CDATA states are the last ones.
+  return state === State.DATA || state === State.TAG_OPEN || state >= State.RCDATA;
+}
+
+/**
+ * Returns the namespace of the contents of the element with the given namespace,
+ * name and static attributes.
+ */
+function getElementContentNamespace(
+  namespace: Namespace,
+  tagName: string,
+  attributes: readonly LiteralPart.StaticAttribute[],
+) {
+  if (namespace === Namespace.Svg) {
+    return tagName === "foreignobject" || tagName === "desc" || tagName === "title"
+      ? Namespace.Html
+      : namespace;
+  }
+
+  if (namespace === Namespace.MathMl) {
+    switch (tagName) {
+      case "mi":
+      case "mo":
+      case "mn":
+      case "ms":
+      case "mtext":
+        return Namespace.Html;
+
+      case "annotation-xml":
+        for (let i = 0, len = attributes.length; i < len; i++) {
+          if (attributes[i].name.toLowerCase() === "encoding") {
+            const encoding = attributes[i].value.toLowerCase();
+
+            return encoding === "text/html" || encoding === "application/xhtml+xml"
+              ? Namespace.Html
+              : namespace;
+          }
+        }
+
+        return namespace;
+    }
+  }
+
+  return namespace;
+}
+
+/**
+ * Returns whether a start tag with the given name closes the foreign elements in
+ * which it is, to be inserted as an HTML element instead.
+ */
+function breaksOutOfForeignContent(tagName: string) {
+  switch (tagName) {
+    case "b":
+    case "big":
+    case "blockquote":
+    case "body":
+    case "br":
+    case "center":
+    case "code":
+    case "dd":
+    case "div":
+    case "dl":
+    case "dt":
+    case "em":
+    case "embed":
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6":
+    case "head":
+    case "hr":
+    case "i":
+    case "img":
+    case "li":
+    case "listing":
+    case "menu":
+    case "meta":
+    case "nobr":
+    case "ol":
+    case "p":
+    case "pre":
+    case "ruby":
+    case "s":
+    case "small":
+    case "span":
+    case "strong":
+    case "strike":
+    case "sub":
+    case "sup":
+    case "table":
+    case "tt":
+    case "u":
+    case "ul":
+    case "var":
+      return true;
+
+    default:
+      return false;
+  }
+}
+
+function isVoidElement(tagName: string) {
+  switch (tagName) {
+    case "area":
+    case "base":
+    case "br":
+    case "col":
+    case "embed":
+    case "hr":
+    case "img":
+    case "input":
+    case "link":
+    case "meta":
+    case "param":
+    case "source":
+    case "track":
+    case "wbr":
+      return true;
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns the state of the tokenizer in the contents of the element with the
+ * given name.
+ */
+function getContentState(tagName: string) {
+  switch (tagName) {
+    case "textarea":
+    case "title":
+      return State.RCDATA;
+
+    case "style":
+    case "xmp":
+    case "iframe":
+    case "noembed":
+    case "noframes":
+      return State.RAWTEXT;
+
+    case "script":
+      return State.SCRIPT_DATA;
+
+    default:
+      return State.DATA;
+  }
+}
+
+/**
+ * Returns whether the given string contains a tag with the given lowercase name
+ * at the given position, followed by a character that ends a tag name.
+ */
+function matchesTagName(string: string, position: number, tagName: string) {
+  const end = position + tagName.length,
+        code = string.charCodeAt(end);
+
+  return (isSpaceCode(code) || code === Code.SLASH || code === Code.GT)
+      && string.slice(position, end).toLowerCase() === tagName;
+}
+
+function isSpaceCode(code: number) {
+  return code === Code.TAB
+      || code === Code.LF
+      || code === Code.FF
+      || code === Code.SPACE
+      || code === Code.CR;
+}
+
+/**
+ * Returns the marker of the binding at the given index in the placeholders
+ * rendered by `renderToHtml`, e.g. `::0::`.
+ */
+function getBindingMarker(markers: MarkerScheme, index: number) {
+  return markers.prefix + markers.nonce + index + markers.prefix;
+}
+
+/**
+ * Returns a random string of lowercase letters and digits, using the
+ * cryptographic random number generator when available.
+ */
+function createNonce() {
+  const values = new Uint32Array(2);
+
+  if (typeof crypto !== "undefined" && typeof crypto.getRandomValues === "function") {
+    crypto.getRandomValues(values);
+  } else {
+    values[0] = Math.random() * 0x100000000;
+    values[1] = Math.random() * 0x100000000;
+  }
+
+  return values[0].toString(36) + values[1].toString(36);
+}
+
+/**
+ * Returns the placeholder rendered by `renderToHtml` for the given parts of a
+ * value or name, whose first binding has the given index.
+ */
+function joinPlaceholderParts(parts: readonly string[], prefix: string, markers: MarkerScheme, index: number) {
+  let placeholder = parts[0];
+
+  for (let i = 1, len = parts.length; i < len; i++) {
+    placeholder += prefix + getBindingMarker(markers, index + i - 1) + parts[i];
+  }
+
+  return placeholder;
+}
+
+/**
+ * A marker added to hydratable output by `renderToString`, located in the
+ * strings of the literal.
+ */
+interface HydrationMarker {
+  readonly stringIndex: number;
+  readonly offset: number;
+  /** The index of the first binding of the element or comment. */
+  readonly index: number;
+  /** Whether the marker starts the data of a comment, or is an attribute. */
+  readonly isComment: boolean;
+}
+
+const emptyMarkers: readonly HydrationMarker[] = [];
+
+/**
+ * What is needed to render and hydrate a literal with `{ hydratable: true }`.
+ */
+interface HydrationTemplate {
+  /** The markers of the elements and comments with bindings, in order. */
+  readonly markers: readonly HydrationMarker[];
+  /**
+   * The elements of the literal in document order, except the contents of
+   * `<template>` elements.
+   */
+  readonly elements: readonly TemplateNode.Element[];
+}
+
+/**
+ * The hydration templates returned by `getHydrationTemplate`, keyed by their
+ * strings.
+ */
+const hydrationTemplates = new WeakMap<readonly string[], HydrationTemplate>();
+
+/**
+ * Returns the `HydrationTemplate` of the literal with the given strings.
+ */
+function getHydrationTemplate(strings: readonly string[]) {
+  let template = hydrationTemplates.get(strings);
+
+  if (template === undefined) {
+    const { children } = parseHtmlTemplate(strings, { recover: true });
+
+    template = Object.freeze({
+      markers: getHydrationMarkers(strings, children),
+      elements: getTemplateElements(children, []),
+    });
+    hydrationTemplates.set(strings, template);
+  }
+
+  return template;
+}
+
+/**
+ * Appends the elements in the given nodes to the given array in document order,
+ * skipping the contents of `<template>` elements (which are not children of
+ * the template in the DOM), and returns it.
+ */
+function getTemplateElements(nodes: readonly TemplateNode[], elements: TemplateNode.Element[]) {
+  for (let i = 0, len = nodes.length; i < len; i++) {
+    const node = nodes[i];
+
+    if (node.kind === TemplateNode.Kind.Element) {
+      elements.push(node);
+
+      if (node.tagName !== "template") {
+        getTemplateElements(node.children, elements);
+      }
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Returns the markers of the elements and comments with bindings in the given
+ * nodes of the literal with the given strings, in order.
+ */
+function getHydrationMarkers(strings: readonly string[], children: readonly TemplateNode[]) {
+  const { offsets } = reconstructSource(strings),
+        markers = [] as HydrationMarker[];
+
+  function addMarker(position: number, index: number, isComment: boolean) {
+    let stringIndex = offsets.length - 1;
+
+    while (offsets[stringIndex] > position) {
+      stringIndex--;
+    }
+
+    markers.push({ stringIndex, offset: position - offsets[stringIndex], index, isComment });
+  }
+
+  function addMarkers(nodes: readonly TemplateNode[]) {
+    for (let i = 0, len = nodes.length; i < len; i++) {
+      const node = nodes[i];
+
+      if (node.kind === TemplateNode.Kind.Element) {
+        const index = getFirstBindingIndex(node);
+
+        if (index !== -1) {
+          addMarker(node.start + 1 + getSourceLength(node.name), index, false);
+        }
+
+        addMarkers(node.children);
+      } else if (node.kind === TemplateNode.Kind.Comment && node.value.bindings.length > 0) {
+        addMarker(node.start + 4 /* <!-- */, node.value.bindings[0], true);
+      }
+    }
+  }
+
+  addMarkers(children);
+
+  return markers;
+}
+
+/**
+ * The names of the elements which HTML parsers may add to the elements of a
+ * literal, e.g. `<tbody>` in `<table><tr>`.
+ */
+const impliedElementNames = new Set(["html", "head", "body", "tbody", "colgroup"]);
+
+/**
+ * Returns whether the given element has the same text as the given element of a
+ * literal if the latter only contains static text, which is compared unless it
+ * contains character references.
+ */
+function hasStaticText<N, A>(adapter: TreeAdapter<N, A>, node: N, element: TemplateNode.Element) {
+  const children = element.children;
+  let text = "";
+
+  for (let i = 0, len = children.length; i < len; i++) {
+    const child = children[i];
+
+    if (child.kind !== TemplateNode.Kind.Text || child.value.bindings.length > 0) {
+      return true;
+    }
+
+    text += child.value.strings[0];
+  }
+
+  if (text === "" || text.includes("&")) {
+    return true;
+  }
+
+  if (text.charCodeAt(0) === Code.LF && ignoresLeadingNewline(element.tagName)) {
+    text = text.slice(1);
+  }
+
+  const nodes = adapter.getChildNodes(node);
+  let data = "";
+
+  for (let i = 0, len = nodes.length; i < len; i++) {
+    if (adapter.getNodeType(nodes[i]) !== 3 /* TEXT_NODE */) {
+      return false;
+    }
+
+    data += adapter.getData(nodes[i]);
+  }
+
+  return data === text;
+}
+
+/**
+ * Returns whether the given data of a text node starts and ends with the static
+ * parts of the given `Text` part, which are compared unless they contain
+ * character references decoded by the parser.
+ */
+function hasStaticTextParts(data: string, part: LiteralPart.Text) {
+  const valueParts = part.valueParts,
+        last = valueParts[valueParts.length - 1];
+  let first = valueParts[0];
+
+  if (part.namespace === Namespace.Html
+      && getContentState(part.tagName) === State.RCDATA
+      && valueParts.some((valuePart) => valuePart.includes("&"))) {
+    return true;
+  }
+
+  if (first.charCodeAt(0) === Code.LF && ignoresLeadingNewline(part.tagName)) {
+    first = first.slice(1);
+  }
+
+  return data.length >= first.length + last.length && data.startsWith(first) && data.endsWith(last);
+}
+
+/**
+ * Returns whether HTML parsers ignore the first newline in the element with the
+ * given name.
+ */
+function ignoresLeadingNewline(tagName: string) {
+  return tagName === "pre" || tagName === "listing" || tagName === "textarea";
+}
+
+/**
+ * Returns the index of the first binding in the start tag or the raw text of the
+ * given element, or `-1` if it has none.
+ */
+function getFirstBindingIndex(element: TemplateNode.Element) {
+  if (element.name.bindings.length > 0) {
+    return element.name.bindings[0];
+  }
+
+  for (let i = 0, len = element.attributes.length; i < len; i++) {
+    const attribute = element.attributes[i];
+
+    if (attribute.kind === TemplateNode.Kind.Binding) {
+      return attribute.index;
+    }
+
+    if (attribute.name.bindings.length > 0) {
+      return attribute.name.bindings[0];
+    }
+
+    if (attribute.value !== undefined && attribute.value.bindings.length > 0) {
+      return attribute.value.bindings[0];
+    }
+  }
+
+  const text = element.children[0];
+
+  if (text !== undefined && text.kind === TemplateNode.Kind.Text && text.value.bindings.length > 0) {
+    return text.value.bindings[0];
+  }
+
+  return -1;
+}
+
+/**
+ * Returns the length of the given interpolation in the source of its literal.
+ */
+function getSourceLength(interpolation: TemplateNode.Interpolation) {
+  let length = 0;
+
+  for (let i = 0, len = interpolation.strings.length; i < len; i++) {
+    length += interpolation.strings[i].length;
+  }
+
+  for (let i = 0, len = interpolation.bindings.length; i < len; i++) {
+    length += ("${" + interpolation.bindings[i] + "}").length;
+  }
+
+  return length;
+}
+
+/**
+ * Returns the string starting the hydration markers of the given scheme, i.e.
+ * its prefix followed by its nonce.
+ */
+function getHydrationMarkerStart(markers: MarkerScheme) {
+  return markers.prefix + markers.nonce;
+}
+
+/**
+ * Returns the index of the binding of the given hydration marker, whose markers
+ * start with the given string, or `-1` if the given node is not a marker. End
+ * markers of `Node` bindings are not markers.
+ */
+function getHydrationMarkerIndex<N, A>(adapter: TreeAdapter<N, A>, node: N, markerStart: string) {
+  if (adapter.getNodeType(node) === 8 /* COMMENT_NODE */) {
+    const data = adapter.getData(node),
+          match = data.startsWith(markerStart) ? /^(\d+)(?::|$)/.exec(data.slice(markerStart.length)) : null;
+
+    return match === null ? -1 : +match[1];
+  }
+
+  const attributes = adapter.getAttributes(node),
+        // Attribute names are lowercase.
+        attributeMarkerStart = markerStart.toLowerCase();
+
+  for (let i = 0, len = attributes.length; i < len; i++) {
+    const name = adapter.getAttributeName(attributes[i]);
+
+    if (name.startsWith(attributeMarkerStart) && /^\d+$/.test(name.slice(attributeMarkerStart.length))) {
+      return +name.slice(attributeMarkerStart.length);
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Returns a function which, called on the siblings following the start marker
+ * of the range of a `Node` binding, returns `true` for the marker ending the
+ * range, skipping over nested ranges whose markers start with the same string.
+ */
+function hydrationRangeEndFinder<N, A>(adapter: TreeAdapter<N, A>, markerStart: string) {
+  let depth = 0;
+
+  return (node: N) => {
+    if (adapter.getNodeType(node) !== 8 /* COMMENT_NODE */) {
+      return false;
+    }
+
+    const data = adapter.getData(node);
+
+    if (data.startsWith(markerStart) && /^\d+$/.test(data.slice(markerStart.length))) {
+      depth++;
+    } else if (data.startsWith("/" + markerStart) && /^\d+$/.test(data.slice(markerStart.length + 1))) {
+      return depth-- === 0;
+    }
+
+    return false;
+  };
+}
+
+/**
+ * Returns the attribute of the given element with the given lowercase name, if
+ * any.
+ */
+function findAttribute<N, A>(adapter: TreeAdapter<N, A>, element: N, name: string) {
+  const attributes = adapter.getAttributes(element);
+
+  for (let i = 0, len = attributes.length; i < len; i++) {
+    if (adapter.getAttributeName(attributes[i]) === name) {
+      return attributes[i];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Renders the given value in a `Node` position to a string.
+ */
+function renderNodeToString(value: unknown, options: RenderToStringOptions | undefined): string {
+  if (value instanceof TemplateResult) {
+    return renderToString(value.strings, value.parts, value.values, options);
+  }
+
+  if (value instanceof RepeatDirective) {
+    return renderNodeToString(Array.from(value.items, value.template), options);
+  }
+
+  if (value instanceof PendingValue) {
+    return renderNodeToString(value.placeholder, options);
+  }
+
+  if (isIterable(value)) {
+    const items = Array.from(value);
+    let htmlString = "";
+
+    for (let i = 0, len = items.length; i < len; i++) {
+      htmlString += renderNodeToString(items[i], options);
+    }
+
+    return htmlString;
+  }
+
+  if (value == null || typeof value === "boolean") {
+    return "";
+  }
+
+  return String(value).replace(/[&<>]/g, escapeCharacter);
+}
+
+/**
+ * Renders the properties of the given object in a `Data` position of an element
+ * with the given name to a string of sanitized attributes, which is appended to
+ * HTML whose last character has the given code.
+ */
+function renderAttributesToString(value: unknown, previousCharCode: number, tagName: string, sanitizer: Sanitizer) {
+  if (value == null) {
+    return "";
+  }
+
+  let attributesString = "",
+      needsSpace = !isSpaceCode(previousCharCode);
+
+  for (const name of Object.keys(value as object)) {
+    const attributeValue = sanitizeValue(tagName, name, (value as Record<string, unknown>)[name], sanitizer, false);
+
+    if (attributeValue == null || attributeValue === false) {
+      continue;
+    }
+
+    if (needsSpace) {
+      attributesString += " ";
+    }
+
+    attributesString += checkName(name);
+
+    if (attributeValue !== true) {
+      attributesString += '="' + escapeAttributeValue(String(attributeValue)) + '"';
+    }
+
+    needsSpace = true;
+  }
+
+  return attributesString;
+}
+
+/**
+ * Returns the length of the quote that precedes the given start of the value of
+ * an attribute at the end of the given string, i.e. `1` if the value is quoted
+ * and `0` otherwise.
+ */
+function getAttributeQuoteLength(string: string, valueStart: string) {
+  const code = string.charCodeAt(string.length - valueStart.length - 1);
+
+  return code === Code.DQUOTE || code === Code.SQUOTE ? 1 : 0;
+}
+
+/**
+ * Returns the offset following the name of the attribute whose value starts
+ * with the given string at the end of the given string, e.g. `href` in
+ * `<a href = "/${0}">`.
+ */
+function getAttributeNameEnd(string: string, valueStart: string) {
+  let end = string.length - valueStart.length - getAttributeQuoteLength(string, valueStart);
+
+  while (isSpaceCode(string.charCodeAt(end - 1))) {
+    end--;
+  }
+
+  // Skip `=`.
+  end--;
+
+  while (isSpaceCode(string.charCodeAt(end - 1))) {
+    end--;
+  }
+
+  return end;
+}
+
+/**
+ * Returns the value of the attribute (or text) with the given parts whose
+ * first binding is at the given index: the value itself if there is a single
+ * binding without static text around it, or the interpolated string otherwise.
+ */
+function interpolateValues(valueParts: readonly string[], values: readonly unknown[], index: number) {
+  const bindingsCount = valueParts.length - 1;
+
+  if (bindingsCount === 1 && valueParts[0] === "" && valueParts[1] === "") {
+    return values[index];
+  }
+
+  let string = valueParts[0];
+
+  for (let i = 0; i < bindingsCount; i++) {
+    const value = values[index + i];
+
+    string += (value == null ? "" : String(value)) + valueParts[i + 1];
+  }
+
+  return string;
+}
+
+function escapeAttributeValue(value: string) {
+  return value.replace(/[&"]/g, escapeCharacter);
+}
+
+/**
+ * Escapes the given text in a raw text element with the given name, or in a
+ * CDATA section if the namespace is foreign, so that it cannot close them.
+ */
+function escapeText(text: string, tagName: string, namespace: Namespace) {
+  if (namespace !== Namespace.Html) {
+    return text.replace(/]]>/g, "]]]]><![CDATA[>");
+  }
+
+  if (getContentState(tagName) === State.RCDATA) {
+    return text.replace(/[&<]/g, escapeCharacter);
+  }
+
+  // Character references are not decoded in other raw text elements, but both
+  // scripts and stylesheets understand `<\/` like `</`.
+  return text.replace(/<(\/|!--)/g, "<\\$1");
+}
+
+/**
+ * Escapes the given text in a comment, so that it cannot close the comment.
+ * Character references are not decoded in comments, but the text can at least
+ * be read back.
+ */
+function escapeComment(text: string) {
+  return text.replace(/[<>]/g, escapeCharacter);
+}
+
+function escapeCharacter(character: string) {
+  switch (character) {
+    case "&": return "&amp;";
+    case "<": return "&lt;";
+    case ">": return "&gt;";
+    case '"': return "&quot;";
+    default: return "&#" + character.charCodeAt(0) + ";";
+  }
+}
+
+/**
+ * Returns the given (part of a) tag or attribute name, throwing if it contains
+ * characters that cannot appear in a name.
+ */
+function checkName(name: string) {
+  if (/[\s"'<>\/=\0]/.test(name)) {
+    throw new TypeError(`Invalid name ${JSON.stringify(name)}`);
+  }
+
+  return name;
+}
+
+/**
+ * Returns the given name of the element of the attribute (or data) part at the
+ * given index, with its bindings replaced by their values if it is dynamic.
+ */
+function getElementName(parts: readonly LiteralPart[], values: readonly unknown[], index: number, tagName: string) {
+  if (!tagName.includes("${}")) {
+    return tagName;
+  }
+
+  // Only the parts of the start tag of the element are between the last part
+  // of its name and the given part.
+  for (let i = index - 1; i >= 0; i--) {
+    const part = parts[i];
+
+    if (part.type === LiteralPart.Kind.TagName) {
+      return interpolateName(part, values, i).toLowerCase();
+    }
+  }
+
+  return tagName;
+}
+
+/**
+ * Returns the given name of the attribute whose first binding is at the given
+ * index, with its bindings replaced by their values if it is dynamic.
+ */
+function getAttributeName(parts: readonly LiteralPart[], values: readonly unknown[], index: number, name: string) {
+  const namePart = parts[index - 1];
+
+  return name.includes("${}") && namePart?.type === LiteralPart.Kind.AttributeName
+    ? interpolateName(namePart, values, index - 1)
+    : name;
+}
+
+/**
+ * Returns the name made of the given parts and of the values of their bindings,
+ * one of which is at the given index.
+ */
+function interpolateName(
+  part: LiteralPart.TagName | LiteralPart.AttributeName,
+  values: readonly unknown[],
+  index: number,
+) {
+  const nameParts = part.nameParts,
+        firstIndex = index - part.index;
+  let name = nameParts[0];
+
+  for (let i = 1, len = nameParts.length; i < len; i++) {
+    const value = values[firstIndex + i - 1];
+
+    name += (value == null ? "" : String(value)) + nameParts[i];
+  }
+
+  return name;
+}
+
+/**
+ * The lowercase names of the attributes whose value is a URL on any element.
+ */
+const urlAttributeNames = new Set([
+  "action", "background", "cite", "codebase", "formaction", "href", "longdesc", "manifest", "poster", "src",
+  "xlink:href",
+]);
+
+/**
+ * The lowercase names of the event handler attributes of HTML and SVG elements,
+ * e.g. `onclick`, but not `one` or `only`.
+ */
+const eventHandlerNames = new Set([
+  "abort", "activate", "afterprint", "animationcancel", "animationend", "animationiteration", "animationstart",
+  "auxclick", "beforecopy", "beforecut", "beforeinput", "beforematch", "beforepaste", "beforeprint",
+  "beforetoggle", "beforeunload", "begin", "blur", "cancel", "canplay", "canplaythrough", "change", "click",
+  "close", "contextlost", "contextmenu", "contextrestored", "copy", "cuechange", "cut", "dblclick", "drag",
+  "dragend", "dragenter", "dragexit", "dragleave", "dragover", "dragstart", "drop", "durationchange", "emptied",
+  "end", "ended", "error", "focus", "focusin", "focusout", "formdata", "fullscreenchange", "fullscreenerror",
+  "gotpointercapture", "hashchange", "input", "invalid", "keydown", "keypress", "keyup", "languagechange", "load",
+  "loadeddata", "loadedmetadata", "loadend", "loadstart", "lostpointercapture", "message", "messageerror",
+  "mousedown", "mouseenter", "mouseleave", "mousemove", "mouseout", "mouseover", "mouseup", "mousewheel",
+  "offline", "online", "pagehide", "pagereveal", "pageshow", "pageswap", "paste", "pause", "play", "playing",
+  "pointercancel", "pointerdown", "pointerenter", "pointerleave", "pointermove", "pointerout", "pointerover",
+  "pointerrawupdate", "pointerup", "popstate", "progress", "ratechange", "rejectionhandled", "repeat", "reset",
+  "resize", "scroll", "scrollend", "search", "securitypolicyviolation", "seeked", "seeking", "select",
+  "selectionchange", "selectstart", "slotchange", "stalled", "storage", "submit", "suspend", "timeupdate",
+  "toggle", "touchcancel", "touchend", "touchmove", "touchstart", "transitioncancel", "transitionend",
+  "transitionrun", "transitionstart", "unhandledrejection", "unload", "volumechange", "waiting",
+  "webkitanimationend", "webkitanimationiteration", "webkitanimationstart", "webkittransitionend", "wheel",
+  "zoom",
+].map((name) => "on" + name));
+
+/**
+ * Returns whether the given URL is relative or uses a safe scheme. Tabs and
+ * newlines are ignored, and leading spaces and control characters trimmed, like
+ * browsers do.
+ */
+function isSafeUrl(url: string) {
+  return /^(?:(?:https?|mailto|ftp|tel|sms):|[^&:/?#]*(?:[/?#]|$))/i.test(
+    url.replace(/[\t\n\r]/g, "").replace(/^[\0- ]+/, ""));
+}
+
+/**
+ * Returns whether the given CSS declaration list cannot run scripts or load
+ * unsafe URLs. Escapes are not allowed, as they could hide anything.
+ */
+function isSafeStyle(style: string) {
+  if (/\\|expression\s*\(|-moz-binding|behavior\s*:|javascript:/i.test(style)) {
+    return false;
+  }
+
+  const urlPattern = /url\(\s*(["']?)(.*?)\1\s*\)/gi;
+
+  for (let match = urlPattern.exec(style); match !== null; match = urlPattern.exec(style)) {
+    if (!isSafeUrl(match[2])) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Returns the given value of an attribute (or property) with the given name of
+ * an element with the given lowercase name, sanitized unless it is trusted.
+ */
+function sanitizeValue(tagName: string, name: string, value: unknown, sanitizer: Sanitizer, isProperty: boolean) {
+  return value instanceof TrustedValue
+    ? value.value
+    : sanitizer(value, getSecurityContext(tagName, name), name, isProperty);
+}
+
+/**
+ * Returns the given (interpolated) value of the given attribute whose first
+ * binding is at the given index, sanitized unless all of its values are
+ * trusted. The element and the attribute have the given (resolved) names.
+ */
+function sanitizeAttributeValue(
+  part: LiteralPart.Attribute,
+  tagName: string,
+  name: string,
+  values: readonly unknown[],
+  index: number,
+  value: unknown,
+  sanitizer: Sanitizer,
+) {
+  for (let i = 0, len = part.valueParts.length - 1; i < len; i++) {
+    if (!(values[index + i] instanceof TrustedValue)) {
+      return sanitizer(
+        value, getSecurityContext(tagName, name), name, part.kind === LiteralPart.AttributeKind.Property);
+    }
+  }
+
+  return value instanceof TrustedValue ? value.value : value;
+}
+
+/**
+ * The attributes of an element in a `CompiledTemplate`, keyed by their
+ * lowercase name, with their static value or `undefined` if they are bound.
+ */
+type TemplateAttributes = ReadonlyMap<string, string | undefined>;
+
+/**
+ * Returns the attributes of the given element of a `TemplateInstance`, whose
+ * parts have the given nodes.
+ */
+function getTemplateAttributes(element: Element, parts: readonly LiteralPart[], nodes: readonly (Node | Attr)[]) {
+  const attributes = new Map<string, string | undefined>(),
+        staticAttributes = element.attributes;
+
+  for (let i = 0, len = staticAttributes.length; i < len; i++) {
+    attributes.set(staticAttributes[i].name.toLowerCase(), staticAttributes[i].value);
+  }
+
+  for (let i = 0, len = parts.length; i < len; i++) {
+    const part = parts[i],
+          node = nodes[i];
+
+    if (part.type === LiteralPart.Kind.Attribute
+        && part.kind !== LiteralPart.AttributeKind.Event
+        && (node === element || (node as Attr).ownerElement === element)) {
+      attributes.set(getReflectedAttributeName(part.name), undefined);
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * Returns the lowercase name of the attribute reflected by the property with
+ * the given name, e.g. `"class"` for `className`.
+ */
+function getReflectedAttributeName(name: string) {
+  return name === "className" ? "class" : name === "htmlFor" ? "for" : name.toLowerCase();
+}
+
+/**
+ * Assigns the properties of the given object to the given element, skipping
+ * those that did not change since the previous object. Values are sanitized
+ * with the given sanitizer.
+ *
+ * Properties of the previous object that are missing from the given object are
+ * reset: static attributes of the template are restored, other attributes are
+ * removed, expando properties are deleted, and other properties are set to
+ * `null`. Attributes bound by other bindings are left as-is.
+ */
+function commitData(
+  element: Element,
+  value: unknown,
+  previousValue: unknown,
+  sanitizer: Sanitizer,
+  templateAttributes: TemplateAttributes,
+) {
+  const properties = (value ?? {}) as Record<string, unknown>,
+        previousProperties = (previousValue === uncommitted ? {} : previousValue ?? {}) as typeof properties,
+        target = element as unknown as Record<string, unknown>;
+
+  for (const key in previousProperties) {
+    if (key in properties) {
+      continue;
+    }
+
+    const attributeName = getReflectedAttributeName(key);
+
+    if (templateAttributes.has(attributeName)) {
+      const staticValue = templateAttributes.get(attributeName);
+
+      if (staticValue !== undefined) {
+        element.setAttribute(attributeName, staticValue);
+      }
+    } else if (Object.prototype.hasOwnProperty.call(element, key)) {
+      delete target[key];
+    } else if (element.hasAttribute(attributeName)) {
+      element.removeAttribute(attributeName);
+    } else {
+      target[key] = null;
+    }
+  }
+
+  for (const key in properties) {
+    if (!Object.is(properties[key], previousProperties[key]) || !(key in previousProperties)) {
+      target[key] = sanitizeValue(element.localName, key, properties[key], sanitizer, true);
+    }
+  }
+}
+
+/**
+ * Throws an error if the given directive binding is not a regular attribute with
+ * the given name.
+ */
+function checkDirectiveAttribute(binding: DirectiveBinding, attributeName: string, directiveName: string) {
+  const { part } = binding;
+
+  if (part.type !== LiteralPart.Kind.Attribute
+      || part.kind !== LiteralPart.AttributeKind.Attribute
+      || part.attributeName.toLowerCase() !== attributeName) {
+    throw new TypeError(`${directiveName} can only be used in the "${attributeName}" attribute.`);
+  }
+}
+
+/**
+ * Returns the hyphenated name of the given style property, e.g. `font-size` for
+ * `fontSize`. Custom properties are returned as-is.
+ */
+function getStylePropertyName(property: string) {
+  return property.startsWith("--") ? property : property.replace(/[A-Z]/g, (c) => "-" + c.toLowerCase());
+}
+
+/**
+ * Returns whether the given value is a promise or another thenable.
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as Partial<PromiseLike<unknown>> | null | undefined)?.then === "function";
+}
+
+/**
+ * Returns whether the given value is an iterable rendered as a list in `Node`
+ * positions, i.e. an iterable which is not a string.
+ */
+function isIterable(value: unknown): value is Iterable<unknown> {
+  return value != null
+      && typeof value !== "string"
+      && typeof (value as Iterable<unknown>)[Symbol.iterator] === "function";
+}
+
+/**
+ * Returns whether the given value is an async iterable.
+ */
+function isAsyncIterable(value: unknown): value is AsyncIterableLike {
+  // `Symbol.asyncIterator` is `undefined` in runtimes that do not support async
+  // iteration.
+  return typeof Symbol.asyncIterator === "symbol"
+      && value != null
+      && typeof (value as AsyncIterableLike)[Symbol.asyncIterator] === "function";
+}
+
+/**
+ * Thrown by the renderer of a `renderToStream` stream which was stopped.
+ */
+class StreamStoppedSignal {}
+
+/**
+ * Writes the given literal to a stream, as in `renderToStream`.
+ */
+async function streamTemplate(
+  strings: readonly string[],
+  parts: readonly LiteralPart[],
+  values: readonly unknown[],
+  options: RenderToStringOptions | undefined,
+  write: (chunk: string) => Promise<void>,
+) {
+  const renderer = createLiteralRenderer(strings, parts, options),
+        renderedValues = new Array<unknown>(values.length),
+        // `Node` values are rendered as a string which cannot occur in the
+        // output (since it contains NUL characters) and that the output is split
+        // at, so that their markers (if any) are rendered around them.
+        separator = "\0" + createNonce() + "\0";
+
+  for (let i = 0, len = parts.length; i < len;) {
+    const part = parts[i];
+
+    renderer.renderString(i);
+
+    if (part.type === LiteralPart.Kind.Node) {
+      renderedValues[i] = separator;
+      i = renderer.renderValue(i, renderedValues);
+
+      const [before, after] = renderer.take().split(separator);
+
+      await write(before);
+      await streamNode(values[i - 1], options, write);
+      await write(after);
+
+      continue;
+    }
+
+    const end = part.type === LiteralPart.Kind.Attribute ? i + part.valueParts.length - 1 : i + 1;
+
+    for (let j = i; j < end; j++) {
+      if (values[j] instanceof PendingValue || isPromiseLike(values[j]) || isAsyncIterable(values[j])) {
+        // Write the HTML preceding the value before awaiting it.
+        await write(renderer.take());
+      }
+
+      renderedValues[j] = await resolveValue(values[j]);
+    }
+
+    i = renderer.renderValue(i, renderedValues);
+  }
+
+  renderer.renderString(parts.length);
+
+  await write(renderer.take());
+}
+
+/**
+ * Writes the given value of a `Node` binding to a stream, as in
+ * `renderToStream`.
+ */
+async function streamNode(
+  value: unknown,
+  options: RenderToStringOptions | undefined,
+  write: (chunk: string) => Promise<void>,
+): Promise<void> {
+  if (value instanceof PendingValue || isPromiseLike(value) || isAsyncIterable(value)) {
+    const resolvedValue = value instanceof PendingValue ? value.value : value;
+
+    return streamNode(
+      isPromiseLike(resolvedValue) ? await resolvedValue : await resolveLastValue(resolvedValue), options, write);
+  }
+
+  if (value instanceof TemplateResult) {
+    return streamTemplate(value.strings, value.parts, value.values, options, write);
+  }
+
+  if (value instanceof RepeatDirective) {
+    return streamNode(Array.from(value.items, value.template), options, write);
+  }
+
+  if (isIterable(value)) {
+    const items = Array.from(value);
+
+    for (let i = 0, len = items.length; i < len; i++) {
+      await streamNode(items[i], options, write);
+    }
+
+    return;
+  }
+
+  await write(renderNodeToString(value, options));
+}
+
+/**
+ * Returns the last value of the given async iterable.
+ */
+async function resolveLastValue(iterable: AsyncIterableLike) {
+  const iterator = iterable[Symbol.asyncIterator]();
+  let lastValue: unknown;
+
+  for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+    lastValue = result.value;
+  }
+
+  return lastValue;
+}
+
+/**
+ * Awaits the asynchronous values of the given values, as in
+ * `renderToStringAsync`.
+ */
+function resolveValues(values: readonly unknown[]) {
+  return Promise.all(values.map(resolveValue));
+}
+
+/**
+ * Awaits the given value and its asynchronous values, as in
+ * `renderToStringAsync`.
+ */
+async function resolveValue(value: unknown): Promise<unknown> {
+  if (value instanceof PendingValue) {
+    return resolveValue(value.value);
+  }
+
+  if (isPromiseLike(value)) {
+    return resolveValue(await value);
+  }
+
+  if (isAsyncIterable(value)) {
+    return resolveValue(await resolveLastValue(value));
+  }
+
+  if (value instanceof TemplateResult) {
+    return new TemplateResult(value.strings, value.parts, await resolveValues(value.values));
+  }
+
+  if (value instanceof RepeatDirective) {
+    return resolveValues(Array.from(value.items, value.template));
+  }
+
+  if (isIterable(value)) {
+    return resolveValues(Array.from(value));
+  }
+
+  return value;
 }
 
-const enum State {
-  UNKNOWN = 0,
-  DATA = 1,
-  TAG_OPEN = 2,
-  END_TAG_OPEN = 3,
-  TAG_NAME = 4,
-  BOGUS_COMMENT = 5,
-  BEFORE_ATTRIBUTE_NAME = 6,
-  AFTER_ATTRIBUTE_NAME = 7,
-  ATTRIBUTE_NAME = 8,
-  BEFORE_ATTRIBUTE_VALUE = 9,
-  ATTRIBUTE_VALUE_DOUBLE_QUOTED = 10,
-  ATTRIBUTE_VALUE_SINGLE_QUOTED = 11,
-  ATTRIBUTE_VALUE_UNQUOTED = 12,
-  AFTER_ATTRIBUTE_VALUE_QUOTED = 13,
-  SELF_CLOSING_START_TAG = 14,
-  COMMENT_START = 15,
-  COMMENT_START_DASH = 16,
-  COMMENT = 17,
-  COMMENT_LESS_THAN_SIGN = 18,
-  COMMENT_LESS_THAN_SIGN_BANG = 19,
-  COMMENT_LESS_THAN_SIGN_BANG_DASH = 20,
-  COMMENT_LESS_THAN_SIGN_BANG_DASH_DASH = 21,
-  COMMENT_END_DASH = 22,
-  COMMENT_END = 23,
-  COMMENT_END_BANG = 24,
-  MARKUP_DECLARATION_OPEN = 25,
+/**
+ * Returns whether the given value is an `EventTarget`.
+ */
+function isEventTarget(value: unknown): value is EventTarget {
+  return typeof (value as Partial<EventTarget> | undefined)?.addEventListener === "function";
 }
 
-function isAsciiAlphaCode(code: number) {
-  return (Code.UPPER_A <= code && code <= Code.UPPER_Z)
-      || (Code.LOWER_A <= code && code <= Code.LOWER_Z);
+/**
+ * Removes the given nodes from their parents, if any.
+ */
+function removeNodes(nodes: readonly Node[] | undefined) {
+  if (nodes !== undefined) {
+    for (let i = 0, len = nodes.length; i < len; i++) {
+      nodes[i].parentNode?.removeChild(nodes[i]);
+    }
+  }
 }
 
-function isSpaceCode(code: number) {
-  return code === Code.TAB
-      || code === Code.LF
-      || code === Code.FF
-      || code === Code.SPACE
-      || code === Code.CR;
+/**
+ * Returns the next sibling of the given node, if any.
+ */
+function getNextSibling<N>(adapter: TreeAdapter<N, unknown>, node: N): N | undefined {
+  const siblings = adapter.getChildNodes(adapter.getParentNode(node)!);
+
+  return siblings[Array.prototype.indexOf.call(siblings, node) + 1];
+}
+
+/**
+ * Returns the given adapter if it can modify trees, and throws otherwise.
+ */
+function getMutableTreeAdapter<N>(adapter: TreeAdapter<N, unknown>) {
+  if (adapter.insertBefore === undefined || adapter.removeChild === undefined) {
+    throw new TypeError("The adapter of the range cannot modify nodes.");
+  }
+
+  return adapter as Required<TreeAdapter<N, unknown>>;
+}
+
+/**
+ * Removes the nodes between the start and end of the given range (included).
+ */
+function removeRange(range: NodeRange) {
+  const parent = range.start.parentNode!;
+  let node: Node = range.start;
+
+  while (node !== range.end) {
+    const next = node.nextSibling!;
+
+    parent.removeChild(node);
+    node = next;
+  }
+
+  parent.removeChild(range.end);
+}
+
+/**
+ * Moves the nodes between the start and end of the given range (included)
+ * before the given node.
+ */
+function moveRange(range: NodeRange, parent: Node, before: Node) {
+  let node: Node = range.start;
+
+  while (node !== range.end) {
+    const next = node.nextSibling!;
+
+    parent.insertBefore(node, before);
+    node = next;
+  }
+
+  parent.insertBefore(range.end, before);
+}
+
+/**
+ * Returns whether each of the given indices is in a longest increasing
+ * subsequence of the given indices, ignoring negative indices.
+ */
+function getLongestIncreasingSubsequence(indices: readonly number[]) {
+  const result = new Array<boolean>(indices.length).fill(false),
+        // `tails[k]` is the position of the smallest last index of an
+        // increasing subsequence of length `k + 1`.
+        tails = [] as number[],
+        predecessors = new Array<number>(indices.length);
+
+  for (let i = 0, len = indices.length; i < len; i++) {
+    const index = indices[i];
+
+    if (index < 0) {
+      continue;
+    }
+
+    let low = 0,
+        high = tails.length;
+
+    while (low < high) {
+      const middle = (low + high) >> 1;
+
+      if (indices[tails[middle]] < index) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    predecessors[i] = low === 0 ? -1 : tails[low - 1];
+    tails[low] = i;
+  }
+
+  for (let i = tails.length === 0 ? -1 : tails[tails.length - 1]; i !== -1; i = predecessors[i]) {
+    result[i] = true;
+  }
+
+  return result;
 }
 
 /**
- * A wrapper around a `TreeWalker` used to skip over nodes until a condition is
- * met.
+ * An object used to traverse the nodes of a tree in document order through a
+ * `TreeAdapter`, skipping over nodes until a condition is met.
  */
-class NodeWalker {
+class NodeWalker<N, A> {
   private attributeIndexHint = 0;
+  // The children lists containing the current node and its ancestors (below the
+  // root), and the index of each of these nodes in its list.
+  private readonly siblings = [] as ArrayLike<N>[];
+  private readonly indices = [] as number[];
 
   public constructor(
-    public readonly treeWalker: TreeWalker,
+    private readonly adapter: TreeAdapter<N, A>,
+    public currentNode: N,
+    /** The types of the nodes returned by `nextNode`, as in `TreeWalker`. */
+    private readonly whatToShow: number,
   ) {}
 
+  /**
+   * Returns a walker whose current node is the given node, and which only
+   * traverses the nodes that follow it in its parent.
+   */
+  public static at<N, A>(adapter: TreeAdapter<N, A>, node: N, whatToShow: number) {
+    const walker = new NodeWalker(adapter, node, whatToShow),
+          siblings = adapter.getChildNodes(adapter.getParentNode(node)!);
+
+    walker.siblings.push(siblings);
+    walker.indices.push(Array.prototype.indexOf.call(siblings, node));
+
+    return walker;
+  }
+
+  /**
+   * Moves to the next node in document order whose type is shown, and returns
+   * it. If there is no such node, `undefined` is returned.
+   */
+  public nextNode() {
+    const adapter = this.adapter,
+          siblings = this.siblings,
+          indices = this.indices;
+    let node = this.currentNode;
+
+    for (;;) {
+      const children = adapter.getChildNodes(node);
+
+      if (children.length > 0) {
+        siblings.push(children);
+        indices.push(0);
+        node = children[0];
+      } else {
+        for (;;) {
+          const depth = siblings.length - 1;
+
+          if (depth === -1) {
+            return undefined;
+          }
+
+          if (++indices[depth] < siblings[depth].length) {
+            node = siblings[depth][indices[depth]];
+            break;
+          }
+
+          siblings.pop();
+          indices.pop();
+        }
+      }
+
+      if ((this.whatToShow & (1 << (adapter.getNodeType(node) - 1))) !== 0) {
+        return this.currentNode = node;
+      }
+    }
+  }
+
   /**
    * Skips over nodes until a comment matching the given condition is found, and
    * returns it.
    */
-  public skipUntilComment(stopIf: (node: Comment) => boolean) {
-    const walker = this.treeWalker;
+  public skipUntilComment(stopIf: (node: N) => boolean) {
+    return this.skipUntilNode(8 /* COMMENT_NODE */, stopIf);
+  }
+
+  /**
+   * Skips over nodes until a text node matching the given condition is found,
+   * and returns it.
+   */
+  public skipUntilText(stopIf: (node: N) => boolean) {
+    return this.skipUntilNode(3 /* TEXT_NODE */, stopIf);
+  }
+
+  /**
+   * Skips over nodes until an element matching the given condition is found,
+   * and returns it.
+   */
+  public skipUntilElement(stopIf: (node: N) => boolean) {
+    return this.skipUntilNode(1 /* ELEMENT_NODE */, stopIf);
+  }
 
+  /**
+   * Skips over nodes until a node of the given type matching the given
+   * condition is found, and returns it.
+   */
+  private skipUntilNode(nodeType: number, stopIf: (node: N) => boolean) {
     for (;;) {
-      const node = walker.currentNode;
+      const node = this.currentNode;
 
-      if (node.nodeType === 8 /* COMMENT_NODE */ && stopIf(node as Comment)) {
-        return node as Comment;
+      if (this.adapter.getNodeType(node) === nodeType && stopIf(node)) {
+        return node;
       }
 
-      if (walker.nextNode() === null) {
+      if (this.nextNode() === undefined) {
         return undefined;
       }
+
+      this.attributeIndexHint = 0;
+    }
+  }
+
+  /**
+   * Skips over the siblings that follow the current node (and their
+   * descendants) until a node matching the given condition is found, and
+   * returns it.
+   */
+  public skipUntilSibling(stopIf: (node: N) => boolean) {
+    const depth = this.siblings.length - 1;
+
+    if (depth === -1) {
+      return undefined;
+    }
+
+    const siblings = this.siblings[depth];
+
+    for (let i = this.indices[depth] + 1, len = siblings.length; i < len; i++) {
+      if (stopIf(siblings[i])) {
+        this.indices[depth] = i;
+
+        return this.currentNode = siblings[i];
+      }
     }
+
+    return undefined;
   }
 
   /**
    * Skips over attributes until an attribute matching the given condition is
    * found, and returns it.
    */
-  public skipUntilAttribute(stopIf: (attr: Attr) => boolean) {
-    const walker = this.treeWalker;
+  public skipUntilAttribute(stopIf: (attr: A) => boolean) {
+    const adapter = this.adapter;
 
     for (;;) {
-      const node = walker.currentNode;
+      const node = this.currentNode;
 
-      if (node.nodeType === 1 /* ELEMENT_NODE */) {
-        const attributes = (node as Element).attributes;
+      if (adapter.getNodeType(node) === 1 /* ELEMENT_NODE */) {
+        const attributes = adapter.getAttributes(node);
 
         for (let i = this.attributeIndexHint, len = attributes.length; i < len; i++) {
           const attribute = attributes[i];
@@ -788,7 +6405,7 @@ class NodeWalker {
         }
       }
 
-      if (walker.nextNode() === null) {
+      if (this.nextNode() === undefined) {
         return undefined;
       }
 
@@ -803,6 +6420,20 @@ class NodeWalker {
     return this.skipUntilComment(() => n-- === 0);
   }
 
+  /**
+   * Skips over `n` elements.
+   */
+  public skipElements(n: number) {
+    return this.skipUntilElement(() => n-- === 0);
+  }
+
+  /**
+   * Skips over `n` text nodes.
+   */
+  public skipTexts(n: number) {
+    return this.skipUntilText(() => n-- === 0);
+  }
+
   /**
    * Skips over `n` attributes.
    */
@@ -810,3 +6441,306 @@ class NodeWalker {
     return this.skipUntilAttribute(() => n-- === 0);
   }
 }
+
+/**
+ * An element of a `TemplateTreeBuilder` whose end tag has not been found yet.
+ */
+interface OpenTemplateElement {
+  readonly tagName: string;
+  readonly name: TemplateNode.Interpolation;
+  readonly attributes: readonly (TemplateNode.Attribute | TemplateNode.Binding)[];
+  readonly children: TemplateNode[];
+  readonly selfClosing: boolean;
+  readonly namespace: Namespace;
+  readonly start: number;
+}
+
+/**
+ * Builds the tree returned by `parseHtmlTemplate` from the constructs reported
+ * by `tokenize`, whose locations are given as a string index and an offset in
+ * that string.
+ */
+class TemplateTreeBuilder {
+  /** The source of the literal, with bindings written as `${i}`. */
+  public readonly source: string;
+
+  private readonly offsets: readonly number[];
+  private readonly children = [] as TemplateNode[];
+  private readonly openElements = [] as OpenTemplateElement[];
+
+  private currentTagName = "";
+  private currentTagNameValue: TemplateNode.Interpolation | undefined;
+  private currentTagAttributes = [] as (TemplateNode.Attribute | TemplateNode.Binding)[];
+  private currentTagStart = 0;
+  private isCurrentTagEndTag = false;
+  private attributeNameValue: TemplateNode.Interpolation | undefined;
+  private attributeStart = 0;
+  private attributeEnd = 0;
+
+  public constructor(private readonly strings: readonly string[]) {
+    const { source, offsets } = reconstructSource(strings);
+
+    this.source = source;
+    this.offsets = offsets;
+  }
+
+  /**
+   * Adds a text node spanning the given locations, unless it is empty.
+   */
+  public text(startStringIndex: number, startOffset: number, endStringIndex: number, endOffset: number) {
+    if (startStringIndex === endStringIndex && startOffset === endOffset) {
+      return;
+    }
+
+    this.getChildren().push(Object.freeze({
+      kind: TemplateNode.Kind.Text,
+      value: this.interpolate(startStringIndex, startOffset, endStringIndex, endOffset),
+      start: this.getPosition(startStringIndex, startOffset),
+      end: this.getPosition(endStringIndex, endOffset),
+    }));
+  }
+
+  /**
+   * Adds a comment whose `<` and following `>` are at the given locations.
+   */
+  public comment(startStringIndex: number, startOffset: number, endStringIndex: number, endOffset: number) {
+    const startString = this.strings[startStringIndex],
+          endString = this.strings[endStringIndex];
+    let dataStart = startOffset + 2,
+        dataEnd = endOffset - 1;
+
+    if (startString.startsWith("<!--", startOffset)) {
+      dataStart += 2;
+
+      if (endString.startsWith("--!", dataEnd - 3)) {
+        dataEnd -= 3;
+      } else if (endString.startsWith("--", dataEnd - 2)) {
+        dataEnd -= 2;
+      }
+
+      if (startStringIndex === endStringIndex && dataEnd < dataStart) {
+        // <!-->, <!--->
+        dataEnd = dataStart;
+      }
+    } else if (startString.charCodeAt(startOffset + 1) === Code.QUESTION) {
+      // The data of a processing instruction (parsed as a bogus comment)
+      // includes its `?`.
+      dataStart--;
+    }
+
+    this.getChildren().push(Object.freeze({
+      kind: TemplateNode.Kind.Comment,
+      value: this.interpolate(startStringIndex, dataStart, endStringIndex, dataEnd),
+      start: this.getPosition(startStringIndex, startOffset),
+      end: this.getPosition(endStringIndex, endOffset),
+    }));
+  }
+
+  /**
+   * Adds the binding at the given index between nodes.
+   */
+  public node(index: number, part: LiteralPart) {
+    this.getChildren().push(this.createBinding(index, part));
+  }
+
+  /**
+   * Adds the binding at the given index to the current start tag.
+   */
+  public data(index: number, part: LiteralPart) {
+    this.currentTagAttributes.push(this.createBinding(index, part));
+  }
+
+  /**
+   * Starts a tag whose `<` and name end are at the given locations.
+   */
+  public tagName(
+    startStringIndex: number,
+    startOffset: number,
+    endStringIndex: number,
+    endOffset: number,
+    tagName: string,
+    isEndTag: boolean,
+  ) {
+    const nameStart = startOffset + (isEndTag ? 2 : 1);
+
+    this.currentTagName = tagName;
+    this.currentTagNameValue = this.interpolate(startStringIndex, nameStart, endStringIndex, endOffset);
+    this.currentTagStart = this.getPosition(startStringIndex, startOffset);
+    this.isCurrentTagEndTag = isEndTag;
+  }
+
+  /**
+   * Starts an attribute of the current tag whose name spans the given locations.
+   */
+  public attributeName(startStringIndex: number, startOffset: number, endStringIndex: number, endOffset: number) {
+    this.attributeNameValue = this.interpolate(startStringIndex, startOffset, endStringIndex, endOffset);
+    this.attributeStart = this.getPosition(startStringIndex, startOffset);
+    this.attributeEnd = this.getPosition(endStringIndex, endOffset);
+  }
+
+  /**
+   * Quits the current attribute, whose value starts (or whose opening quote is)
+   * at the given start location and ends at the given end location.
+   */
+  public attributeValue(startStringIndex: number, startOffset: number, endStringIndex: number, endOffset: number) {
+    const code = this.strings[startStringIndex].charCodeAt(startOffset),
+          isQuoted = code === Code.DQUOTE || code === Code.SQUOTE,
+          value = this.interpolate(
+            startStringIndex, isQuoted ? startOffset + 1 : startOffset, endStringIndex, endOffset);
+
+    this.attributeEnd = this.getPosition(endStringIndex, isQuoted ? endOffset + 1 : endOffset);
+    this.quitAttribute(value);
+  }
+
+  /**
+   * Quits the current attribute, which has no value.
+   */
+  public valuelessAttribute() {
+    this.quitAttribute(undefined);
+  }
+
+  /**
+   * Quits the current tag, whose closing `>` precedes the given location. Start
+   * tags of empty elements (e.g. `<br>`, or `<path />` in SVG) also close them.
+   */
+  public tag(
+    endStringIndex: number,
+    endOffset: number,
+    selfClosing: boolean,
+    isEmpty: boolean,
+    namespace: Namespace,
+  ) {
+    const end = this.getPosition(endStringIndex, endOffset),
+          attributes = Object.freeze(this.currentTagAttributes),
+          openElements = this.openElements;
+
+    this.currentTagAttributes = [];
+
+    if (this.isCurrentTagEndTag) {
+      let index = openElements.length - 1;
+
+      while (index >= 0 && openElements[index].tagName !== this.currentTagName) {
+        index--;
+      }
+
+      // Elements opened after the matching element are implicitly closed by
+      // this end tag.
+      while (index >= 0 && openElements.length > index + 1) {
+        this.closeElement(this.currentTagStart);
+      }
+
+      if (index >= 0) {
+        this.closeElement(end);
+      }
+
+      return;
+    }
+
+    const element: OpenTemplateElement = {
+      tagName: this.currentTagName,
+      name: this.currentTagNameValue!,
+      attributes,
+      children: [],
+      selfClosing,
+      namespace,
+      start: this.currentTagStart,
+    };
+
+    openElements.push(element);
+
+    if (isEmpty) {
+      this.closeElement(end);
+    }
+  }
+
+  /**
+   * Closes the open elements until only the given number of elements are open,
+   * when the current start tag breaks out of foreign content.
+   */
+  public closeElements(depth: number) {
+    while (this.openElements.length > depth) {
+      this.closeElement(this.currentTagStart);
+    }
+  }
+
+  /**
+   * Closes the elements that are still open, and returns the nodes at the root
+   * of the literal.
+   */
+  public finish() {
+    while (this.openElements.length > 0) {
+      this.closeElement(this.source.length);
+    }
+
+    return Object.freeze(this.children) as readonly TemplateNode[];
+  }
+
+  private quitAttribute(value: TemplateNode.Interpolation | undefined) {
+    this.currentTagAttributes.push(Object.freeze({
+      kind: TemplateNode.Kind.Attribute,
+      name: this.attributeNameValue!,
+      value,
+      start: this.attributeStart,
+      end: this.attributeEnd,
+    }));
+  }
+
+  private closeElement(end: number) {
+    const element = this.openElements.pop()!;
+
+    this.getChildren().push(Object.freeze({
+      kind: TemplateNode.Kind.Element,
+      tagName: element.tagName,
+      name: element.name,
+      attributes: element.attributes,
+      children: Object.freeze(element.children),
+      selfClosing: element.selfClosing,
+      namespace: element.namespace,
+      start: element.start,
+      end,
+    }));
+  }
+
+  private createBinding(index: number, part: LiteralPart): TemplateNode.Binding {
+    return Object.freeze({
+      kind: TemplateNode.Kind.Binding,
+      index,
+      part,
+      start: this.offsets[index] + this.strings[index].length,
+      end: this.offsets[index + 1],
+    });
+  }
+
+  private getChildren() {
+    const openElements = this.openElements;
+
+    return openElements.length === 0 ? this.children : openElements[openElements.length - 1].children;
+  }
+
+  private getPosition(stringIndex: number, offset: number) {
+    return this.offsets[stringIndex] + offset;
+  }
+
+  /**
+   * Returns the strings and bindings between the given locations.
+   */
+  private interpolate(
+    startStringIndex: number,
+    startOffset: number,
+    endStringIndex: number,
+    endOffset: number,
+  ): TemplateNode.Interpolation {
+    const strings = [] as string[],
+          bindings = [] as number[];
+
+    for (let i = startStringIndex; i < endStringIndex; i++) {
+      strings.push(this.strings[i].slice(i === startStringIndex ? startOffset : 0));
+      bindings.push(i);
+    }
+
+    strings.push(this.strings[endStringIndex].slice(
+      startStringIndex === endStringIndex ? startOffset : 0, endOffset));
+
+    return Object.freeze({ strings: Object.freeze(strings), bindings: Object.freeze(bindings) });
+  }
+}